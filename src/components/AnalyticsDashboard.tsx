@@ -1,51 +1,200 @@
 import * as React from "react";
-import { format } from "date-fns";
-import { CalendarIcon, BarChart3, Download, RefreshCw, Clock, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { format, formatDistanceToNow } from "date-fns";
+import { BarChart3, RefreshCw, Clock, CheckCircle, AlertCircle, Loader2, History, Database, RotateCw, ScrollText } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from "@/components/ui/popover";
 import { Card, CardContent } from "@/components/ui/card";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "@/hooks/use-toast";
+import { estimateRemainingSeconds } from "@/lib/progress";
+import {
+  apiClient,
+  DEFAULT_BATCH_OPTIONS,
+  toProductGid,
+  fetchProductSalesInBatches,
+  isAbortError,
+  planBatches,
+  type BatchedProductSalesResult,
+  type BatchOutcome,
+  type FailedBatch,
+  type InvalidProductSalesRow,
+  type ProductSalesParams,
+  type ProductSalesRow,
+  type ProductScope,
+  type ProductSearchResult,
+} from "@/lib/api";
+import {
+  clearQueryJob,
+  createQueryJob,
+  loadQueryJob,
+  saveQueryJob,
+  saveQueryJobBatch,
+  type QueryJob,
+  type StoredQueryJob,
+} from "@/lib/queryJobs";
+import {
+  absoluteRange,
+  DEFAULT_DATE_RANGE,
+  formatIsoDate,
+  parseDateRangeExpression,
+  parseIsoDate,
+  resolveDateRange,
+  type ResolveOptions,
+} from "@/lib/dateRanges";
+import { DateRangePicker } from "@/components/dashboard/DateRangePicker";
+import { ResultsTable } from "@/components/dashboard/ResultsTable";
+import { PivotBuilder } from "@/components/dashboard/PivotBuilder";
+import { ChartsPanel } from "@/components/dashboard/ChartsPanel";
+import { ExportDialog } from "@/components/dashboard/ExportDialog";
+import { GoogleSheetDialog } from "@/components/dashboard/GoogleSheetDialog";
+import { VariantOptionsPanel } from "@/components/dashboard/VariantOptionsPanel";
+import { ReportActions } from "@/components/dashboard/ReportActions";
+import { SummaryCards } from "@/components/dashboard/SummaryCards";
+import { SalesTrendChart } from "@/components/dashboard/SalesTrendChart";
+import { StoreSettingsDialog } from "@/components/dashboard/StoreSettingsDialog";
+import {
+  aggregateByVariant,
+  GRANULARITY_OPTIONS,
+  requestGranularity,
+  type Breakdown,
+  type Granularity,
+} from "@/lib/timeSeries";
+import { DEFAULT_GRID_STATE, filterRows, orderedColumns, sortRows, type GridState } from "@/lib/dataGrid";
+import { resultColumns } from "@/lib/resultColumns";
+import {
+  COMPARISON_OPTIONS,
+  getComparisonParams,
+  type ComparisonMode,
+  type ComparisonQuery,
+} from "@/lib/comparison";
+import {
+  CACHE_TTL_OPTIONS,
+  DEFAULT_CACHE_TTL_MINUTES,
+  readCachedSales,
+  writeCachedSales,
+} from "@/lib/salesCache";
+import { formatTimestamp } from "@/lib/timeZone";
+import type { HistoryQuery } from "@/lib/exportHistory";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { useSalesAggregates } from "@/hooks/use-sales-aggregates";
+import {
+  addProductTokens,
+  describeIdentifier,
+  parseProductInput,
+  productIdOf,
+  removeProductId,
+  resolveProductIdentifiers,
+} from "@/lib/productIdentifiers";
+import { ProductIdChips } from "@/components/dashboard/ProductIdChips";
+import { ProductPicker } from "@/components/dashboard/ProductPicker";
+import { ProductFileImport } from "@/components/dashboard/ProductFileImport";
+import { ScopeFilters } from "@/components/dashboard/ScopeFilters";
+import {
+  describeScope,
+  EMPTY_SCOPE_INPUT,
+  expandProductScope,
+  isScopeEmpty,
+  scopeInputSchema,
+  toProductScope,
+  toScopeInput,
+} from "@/lib/productScope";
+
+/** Date ranges are validated in the store's time zone and fiscal calendar, the same way they're queried. */
+const formSchema = (resolveOptions: ResolveOptions) => z.object({
+  productId: z.string().superRefine((value, ctx) => {
+    const { invalid } = parseProductInput(value);
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Fix or remove ${invalid.length} unrecognized identifier(s)`,
+      });
+    }
+  }),
+  scope: scopeInputSchema,
+  dateRange: z.string().superRefine((value, ctx) => {
+    const expression = parseDateRangeExpression(value);
+    if (!expression) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: value ? "Pick an end date" : "Date range is required",
+      });
+      return;
+    }
 
-const backendApi = import.meta.env.VITE_BACKEND_API;
-
-const FormSchema = z.object({
-  productId: z.string().min(1, "Product ID is required"),
-  startDate: z.date({ required_error: "Start date is required" }),
-  endDate: z.date({ required_error: "End date is required" }),
+    const { start, end } = resolveDateRange(expression, resolveOptions);
+    if (end < start) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "End date can't be before start date",
+      });
+    }
+  }),
+  batchSize: z.coerce
+    .number({ invalid_type_error: "Batch size must be a number" })
+    .int()
+    .min(1, "Batch size must be at least 1")
+    .max(250, "Batch size can be at most 250"),
+  concurrency: z.coerce
+    .number({ invalid_type_error: "Parallel batches must be a number" })
+    .int()
+    .min(1, "At least 1 batch must run at a time")
+    .max(10, "At most 10 batches can run at a time"),
+  cacheTtlMinutes: z.coerce.number().int().min(0),
+  comparison: z.enum(["none", "previous_period", "previous_year"]),
+  granularity: z.enum(["none", "day", "week", "month"]),
+}).superRefine((data, ctx) => {
+  if (
+    parseProductInput(data.productId).identifiers.length === 0 &&
+    isScopeEmpty(toProductScope(data.scope))
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["productId"],
+      message: "Enter product IDs or set a scope filter",
+    });
+  }
 });
 
+type DashboardForm = z.infer<ReturnType<typeof formSchema>>;
+
 const AnalyticsDashboard = () => {
-  const [updatingSheet, setUpdatingSheet] = React.useState(false);
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const storeSettings = useStoreSettings();
   const [showResults, setShowResults] = React.useState(false);
-  const [productData, setProductData] = React.useState<any[]>([]);
+  const [productData, setProductData] = React.useState<ProductSalesRow[]>([]);
+  const [resultParams, setResultParams] = React.useState<ProductSalesParams | null>(null);
+  const [breakdown, setBreakdown] = React.useState<Breakdown | null>(null);
+  const [resultScope, setResultScope] = React.useState<ProductScope | null>(null);
+  /** Form input the shown result was queried from, for re-running it from the export history. */
+  const [resultInput, setResultInput] = React.useState<{ productInput: string; dateRange: string } | null>(null);
+  const [invalidRows, setInvalidRows] = React.useState<InvalidProductSalesRow[]>([]);
+  const [failedBatches, setFailedBatches] = React.useState<FailedBatch[]>([]);
   const [loading, setLoading] = React.useState(false);
   const [loadingProgress, setLoadingProgress] = React.useState(0);
   const [currentStatus, setCurrentStatus] = React.useState("");
@@ -53,81 +202,172 @@ const AnalyticsDashboard = () => {
     totalProducts: 0,
     processedProducts: 0,
     totalVariants: 0,
-    estimatedTime: 0,
     startTime: null as Date | null,
     currentPhase: "idle" as "idle" | "fetching_products" | "fetching_sales" | "processing" | "complete",
   });
   const [abortController, setAbortController] = React.useState<AbortController | null>(null);
+  const [pendingJob, setPendingJob] = React.useState<StoredQueryJob | null>(null);
+  const [cachedAt, setCachedAt] = React.useState<number | null>(null);
+  const [gridState, setGridState] = React.useState<GridState>(DEFAULT_GRID_STATE);
+  const [productTitles, setProductTitles] = React.useState<Record<string, string>>({});
+  const [comparison, setComparison] = React.useState<(ComparisonQuery & { rows: ProductSalesRow[] }) | null>(null);
+
+  const resolveOptions = React.useMemo(
+    () => ({ timeZone: storeSettings.timeZone, fiscalCalendar: storeSettings.fiscalCalendar }),
+    [storeSettings]
+  );
+  const resolver = React.useMemo(() => zodResolver(formSchema(resolveOptions)), [resolveOptions]);
 
-  const form = useForm<z.infer<typeof FormSchema>>({
-    resolver: zodResolver(FormSchema),
+  const form = useForm<DashboardForm>({
+    resolver,
     defaultValues: {
       productId: "",
-      startDate: (() => {
-        const d = new Date();
-        d.setDate(d.getDate() - 90);
-        return d;
-      })(),
-      endDate: new Date(),
+      scope: EMPTY_SCOPE_INPUT,
+      dateRange: DEFAULT_DATE_RANGE,
+      batchSize: DEFAULT_BATCH_OPTIONS.batchSize,
+      concurrency: DEFAULT_BATCH_OPTIONS.concurrency,
+      cacheTtlMinutes: DEFAULT_CACHE_TTL_MINUTES,
+      comparison: "none",
+      granularity: "none",
     },
   });
 
-  // Real-time progress tracking with timeout protection
+  const productInput = form.watch("productId");
+  const parsedProducts = React.useMemo(() => parseProductInput(productInput), [productInput]);
+  const selectedProductIds = React.useMemo(
+    () =>
+      new Set(parsedProducts.identifiers.flatMap((identifier) => (identifier.kind === "id" ? [identifier.id] : []))),
+    [parsedProducts]
+  );
+
+  // Picked products go into the same field as typed IDs, so both can be mixed freely
+  const toggleProduct = (product: ProductSearchResult, selected: boolean) => {
+    const id = productIdOf(product.id);
+    const current = form.getValues("productId");
+    form.setValue("productId", selected ? addProductTokens(current, [id]) : removeProductId(current, id), {
+      shouldDirty: true,
+      shouldValidate: form.formState.isSubmitted,
+    });
+    if (selected) setProductTitles(prev => ({ ...prev, [id]: product.title }));
+  };
+
+  const importProducts = (values: string[]) => {
+    form.setValue("productId", addProductTokens(form.getValues("productId"), values), {
+      shouldDirty: true,
+      shouldValidate: form.formState.isSubmitted,
+    });
+  };
+
+  // Per-period rows are only needed by the trend chart; everything else works on variant totals
+  const { variantRows, comparedRows, summary, previousSummary } = useSalesAggregates(
+    productData,
+    comparison?.rows ?? null
+  );
+  const columns = React.useMemo(() => resultColumns(comparedRows !== null), [comparedRows]);
+  const { filters: gridFilters, search: gridSearch, sort: gridSort } = gridState;
+  const filteredRows = React.useMemo(
+    () =>
+      filterRows(comparedRows ?? variantRows, columns, { ...DEFAULT_GRID_STATE, filters: gridFilters, search: gridSearch }),
+    [comparedRows, variantRows, columns, gridFilters, gridSearch]
+  );
+  const viewRows = React.useMemo(() => sortRows(filteredRows, columns, gridSort), [filteredRows, columns, gridSort]);
+  const sortedRows = React.useMemo(
+    () => sortRows(comparedRows ?? variantRows, columns, gridSort),
+    [comparedRows, variantRows, columns, gridSort]
+  );
+  const { columnOrder, hiddenColumns } = gridState;
+  const exportColumns = React.useMemo(
+    () => orderedColumns(columns, { ...DEFAULT_GRID_STATE, columnOrder }),
+    [columns, columnOrder]
+  );
+  const defaultExportColumnIds = React.useMemo(
+    () => exportColumns.filter((column) => !hiddenColumns.includes(column.id)).map((column) => column.id),
+    [exportColumns, hiddenColumns]
+  );
+  const exportDetails = React.useMemo(
+    () =>
+      resultParams
+        ? [
+            { label: "Start Date", value: resultParams.startDate },
+            { label: "End Date", value: resultParams.endDate },
+            ...(resultScope ? [{ label: "Scope", value: describeScope(resultScope) }] : []),
+          ]
+        : [],
+    [resultParams, resultScope]
+  );
+  const reportColumns = React.useMemo(
+    () => exportColumns.filter((column) => !hiddenColumns.includes(column.id)),
+    [exportColumns, hiddenColumns]
+  );
+  const reportDetails = React.useMemo(
+    () => [
+      ...exportDetails,
+      ...(comparison
+        ? [
+            {
+              label: "Compared With",
+              value: `${comparison.params.startDate} to ${comparison.params.endDate}`,
+            },
+          ]
+        : []),
+      ...(viewRows.length < (comparedRows ?? variantRows).length
+        ? [{ label: "Rows", value: `${viewRows.length} of ${(comparedRows ?? variantRows).length} (filtered)` }]
+        : []),
+    ],
+    [exportDetails, comparison, viewRows, comparedRows, variantRows]
+  );
+  const reportTrend = React.useMemo(
+    () =>
+      resultParams && breakdown
+        ? { rows: productData, startDate: resultParams.startDate, endDate: resultParams.endDate, breakdown }
+        : null,
+    [resultParams, breakdown, productData]
+  );
+  const historyQuery = React.useMemo<HistoryQuery | null>(
+    () =>
+      resultParams && resultInput
+        ? {
+            ...resultInput,
+            scope: resultScope,
+            params: resultParams,
+            breakdown,
+            comparison: comparison?.mode ?? "none",
+          }
+        : null,
+    [resultParams, resultInput, resultScope, breakdown, comparison]
+  );
+  const pivotContext = React.useMemo(
+    () => ({ granularity: breakdown?.granularity ?? null, fiscalCalendar: breakdown?.fiscalCalendar ?? null }),
+    [breakdown]
+  );
+
+  // Offer to resume a query interrupted by a reload or closed tab
+  React.useEffect(() => {
+    loadQueryJob()
+      .then(setPendingJob)
+      .catch((error) => console.error("Could not load saved query:", error));
+  }, []);
+
+  // Real-time progress tracking
   React.useEffect(() => {
     let interval: NodeJS.Timeout;
-    let timeoutId: NodeJS.Timeout;
 
     if (loading) {
       const startTime = Date.now();
 
+      // Tick once a second so elapsed time and the ETA stay current
       interval = setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const elapsedSeconds = elapsed / 1000;
-
-        // Update processing time
         setProcessingStats(prev => ({
           ...prev,
           startTime: prev.startTime || new Date(startTime)
         }));
-
-        // Progressive status updates based on time elapsed
-        if (elapsedSeconds > 30 && processingStats.currentPhase === "fetching_products") {
-          setCurrentStatus("Fetching products... This may take a while for large datasets");
-        } else if (elapsedSeconds > 60 && processingStats.currentPhase === "fetching_sales") {
-          setCurrentStatus("Analyzing sales data across date range...");
-        } else if (elapsedSeconds > 90) {
-          setCurrentStatus("Processing large dataset, almost complete...");
-        }
       }, 1000);
-
-      // Safety timeout - 5 minutes max
-      timeoutId = setTimeout(() => {
-        if (loading && abortController) {
-          abortController.abort();
-          setLoading(false);
-          setLoadingProgress(0);
-          toast({
-            title: "Request Timeout",
-            description: "The request took too long. Please try with fewer products or a shorter date range.",
-            variant: "destructive",
-          });
-        }
-      }, 300000); // 5 minutes
     }
 
     return () => {
       if (interval) clearInterval(interval);
-      if (timeoutId) clearTimeout(timeoutId);
     };
-  }, [loading, processingStats.currentPhase, abortController]);
-
-  const estimateProcessingTime = (productCount: number) => {
-    // More realistic estimation based on API performance
-    const baseTime = 5;
-    const timePerProduct = 0.8; // seconds per product
-    const batchOverhead = Math.ceil(productCount / 5) * 2; // batch processing overhead
-    return Math.round(baseTime + (productCount * timePerProduct) + batchOverhead);
-  };
+  }, [loading]);
 
   const cancelRequest = () => {
     if (abortController) {
@@ -135,6 +375,7 @@ const AnalyticsDashboard = () => {
       setLoading(false);
       setLoadingProgress(0);
       setCurrentStatus("");
+      clearQueryJob().catch((error) => console.error("Could not clear saved query:", error));
       toast({
         title: "Request Cancelled",
         description: "The analytics request has been cancelled.",
@@ -142,129 +383,166 @@ const AnalyticsDashboard = () => {
     }
   };
 
-  async function onSubmit(data: z.infer<typeof FormSchema>) {
+  /**
+   * Runs (or resumes) a query job. `previous` holds the outcomes of batches an
+   * earlier session already finished; only the remaining batches are fetched.
+   * Resolves with the merged result, or `null` if the run was cancelled or failed.
+   */
+  async function runQuery(
+    job: QueryJob,
+    previous: BatchOutcome[] = []
+  ): Promise<BatchedProductSalesResult | null> {
     // Create new abort controller for this request
     const controller = new AbortController();
     setAbortController(controller);
+    setPendingJob(null);
+    setCachedAt(null);
+    setComparison(null);
+    setResultParams(job.params);
+    setResultInput({ productInput: job.productInput, dateRange: job.dateRange });
+    setBreakdown(job.breakdown);
+    setResultScope(job.scope);
 
     setLoading(true);
     const startTime = new Date();
 
-    // Parse all product IDs without limit
-    const productIds = data.productId
-      .split(",")
-      .map((id) => id.trim())
-      .filter(Boolean);
-
-    const totalProducts = productIds.length;
-    const estimatedTime = estimateProcessingTime(totalProducts);
+    const totalProducts = job.params.productIds.length;
+    const previousRows = previous.flatMap((outcome) => outcome.rows);
+    const previousInvalidRows = previous.flatMap((outcome) => outcome.invalidRows);
 
     setProcessingStats({
       totalProducts,
       processedProducts: 0,
-      totalVariants: 0,
-      estimatedTime,
+      totalVariants: previousRows.length,
       startTime,
       currentPhase: "fetching_products",
     });
 
-    setShowResults(false);
-    setProductData([]);
-    setLoadingProgress(10);
+    setShowResults(previousRows.length > 0);
+    setProductData(previousRows);
+    setInvalidRows(previousInvalidRows);
+    setFailedBatches([]);
+    setLoadingProgress(0);
     setCurrentStatus(`Preparing to fetch ${totalProducts} products...`);
 
     toast({
-      title: "Analytics Query Submitted",
+      title: previous.length > 0 ? "Resuming Analytics Query" : "Analytics Query Submitted",
       description: `Processing ${totalProducts} product(s) from ${format(
-        data.startDate,
+        parseIsoDate(job.params.startDate),
         "PPP"
-      )} to ${format(data.endDate, "PPP")}. Estimated time: ${estimatedTime}s`,
+      )} to ${format(parseIsoDate(job.params.endDate), "PPP")}.`,
     });
 
     try {
-      const startDate = format(data.startDate, "yyyy-MM-dd");
-      const endDate = format(data.endDate, "yyyy-MM-dd");
-
-      // Update status for product fetching phase
-      setCurrentStatus("Fetching product information...");
-      setLoadingProgress(20);
-      setProcessingStats(prev => ({ ...prev, currentPhase: "fetching_products" }));
-
-      // Build query string for all product IDs
-      const query = productIds
-        .map((id) => `product_id=gid://shopify/Product/${id}`)
-        .join("&");
-
-      const url = `${backendApi}/product-sales?${query}&start_date=${startDate}&end_date=${endDate}`;
-
-      // Update status for sales data phase
-      setCurrentStatus("Analyzing sales data and order history...");
-      setLoadingProgress(40);
-      setProcessingStats(prev => ({ ...prev, currentPhase: "fetching_sales" }));
-
-      const response = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
+      const batchResult = await fetchProductSalesInBatches(
+        apiClient,
+        job.params,
+        {
+          batchSize: job.batchSize,
+          concurrency: job.concurrency,
+          skipBatches: job.completedBatches,
+          signal: controller.signal,
+          onBatchSettled: (index, outcome) =>
+            saveQueryJobBatch(job.id, index, outcome).catch((error) =>
+              console.error("Could not save query progress:", error)
+            ),
+          onProgress: (progress) => {
+            if (progress.rows.length > 0) {
+              setProductData(prev => [...prev, ...progress.rows]);
+              setShowResults(true);
+            }
+            if (progress.invalidRows.length > 0) {
+              setInvalidRows(prev => [...prev, ...progress.invalidRows]);
+            }
+
+            setProcessingStats(prev => ({
+              ...prev,
+              totalProducts: progress.totalProducts,
+              processedProducts: progress.processedProducts,
+              totalVariants: prev.totalVariants + progress.rows.length,
+              currentPhase: "fetching_sales",
+            }));
+            setLoadingProgress(
+              progress.totalProducts > 0
+                ? (progress.processedProducts / progress.totalProducts) * 100
+                : 0
+            );
+            setCurrentStatus(
+              `Processed ${progress.processedProducts} of ${progress.totalProducts} products...`
+            );
+          },
         }
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Server error: ${response.status} - ${errorText}`);
-      }
+      );
 
-      // Update status for processing phase
-      setCurrentStatus("Processing and organizing results...");
-      setLoadingProgress(80);
-      setProcessingStats(prev => ({ ...prev, currentPhase: "processing" }));
+      const result = {
+        rows: [...previousRows, ...batchResult.rows],
+        invalidRows: [...previousInvalidRows, ...batchResult.invalidRows],
+        failures: batchResult.failures,
+        failedProductIds: batchResult.failedProductIds,
+      };
 
-      const result = await response.json();
+      await clearQueryJob().catch((error) => console.error("Could not clear saved query:", error));
+      writeCachedSales(queryClient, job.params, result);
 
-      // Final processing
-      setCurrentStatus("Finalizing results...");
-      setLoadingProgress(95);
-
-      // Small delay to show completion
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Complete the progress
       setLoadingProgress(100);
       setCurrentStatus("Complete!");
 
-      setProductData(result || []);
+      // Replace the incrementally built list with the authoritative result
+      setProductData(result.rows);
+      setInvalidRows(result.invalidRows);
+      setFailedBatches(result.failures);
       setShowResults(true);
 
+      const variantCount = aggregateByVariant(result.rows).length;
       const endTime = new Date();
       const actualTime = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
 
       setProcessingStats(prev => ({
         ...prev,
-        processedProducts: totalProducts,
-        totalVariants: result?.length || 0,
+        processedProducts: prev.totalProducts,
+        totalVariants: variantCount,
         currentPhase: "complete",
       }));
 
       toast({
         title: "Data Retrieved Successfully!",
-        description: `Processed ${totalProducts} products (${result?.length || 0} variants) in ${actualTime}s`,
+        description: `Processed ${totalProducts} products (${variantCount} variants) in ${actualTime}s`,
       });
 
+      if (result.failedProductIds.length > 0) {
+        toast({
+          title: "Some products failed",
+          description: `${result.failedProductIds.length} of ${totalProducts} product(s) could not be fetched after retrying. Results for the rest are shown.`,
+          variant: "destructive",
+        });
+      }
+
+      if (result.invalidRows.length > 0) {
+        toast({
+          title: "Some rows could not be read",
+          description: `${result.invalidRows.length} row(s) in the response were malformed and have been left out of the results.`,
+          variant: "destructive",
+        });
+      }
+
+      return result;
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (isAbortError(error)) {
         // Request was cancelled, don't show error
-        return;
+        return null;
       }
 
       console.error('Fetch error:', error);
       setCurrentStatus("Error occurred during processing");
+      // Keep the saved job so the finished batches aren't lost
+      loadQueryJob().then(setPendingJob).catch(() => setPendingJob(null));
       toast({
         title: "Error fetching data",
         description: error instanceof Error ? error.message : String(error),
         variant: "destructive",
       });
       setShowResults(false);
+      return null;
     } finally {
       setLoading(false);
       setLoadingProgress(0);
@@ -273,139 +551,306 @@ const AnalyticsDashboard = () => {
     }
   }
 
-  const downloadCSV = () => {
-    if (productData.length === 0) {
-      toast({
-        title: "No data to download",
-        description: "Please run a query first to get data.",
-        variant: "destructive",
-      });
+  /**
+   * Fetches the comparison range once the main results are in. A failure here
+   * leaves the main results in place and only reports the error.
+   */
+  async function runComparison(query: ComparisonQuery, ttlMinutes: number, forceRefresh = false) {
+    const cached = forceRefresh ? null : readCachedSales(queryClient, query.params, ttlMinutes);
+    if (cached) {
+      setComparison({ ...query, rows: cached.result.rows });
       return;
     }
 
-    const headers = [
-      "Product Title",
-      "Product Variant Title",
-      "Product Variant SKU",
-      "Net Items Sold",
-      "Net Sales",
-    ];
-
-    const escapeCSV = (value: any) => {
-      if (value === null || value === undefined) return '""';
-      const str = value.toString();
-      return `"${str.replace(/"/g, '""')}"`;
-    };
-
-    const csvContent = [
-      headers.map(escapeCSV).join(","),
-      ...productData.map((row) =>
-        [
-          escapeCSV(row.productTitle),
-          escapeCSV(row.variantTitle),
-          escapeCSV(row.sku),
-          escapeCSV(row.netItemsSold),
-          escapeCSV(row.netSales?.toFixed(2) || "0.00"),
-        ].join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `analytics-data-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`
+    const controller = new AbortController();
+    setAbortController(controller);
+    setLoading(true);
+    setLoadingProgress(0);
+    setProcessingStats(prev => ({
+      ...prev,
+      totalProducts: query.params.productIds.length,
+      processedProducts: 0,
+      startTime: new Date(),
+      currentPhase: "fetching_sales",
+    }));
+    setCurrentStatus(
+      `Fetching comparison period ${format(parseIsoDate(query.params.startDate), "PP")} – ${format(parseIsoDate(query.params.endDate), "PP")}...`
     );
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
 
-    toast({
-      title: "CSV Downloaded",
-      description: `Successfully downloaded data for ${productData.length} variants`,
+    try {
+      const result = await fetchProductSalesInBatches(apiClient, query.params, {
+        batchSize: form.getValues("batchSize"),
+        concurrency: form.getValues("concurrency"),
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setProcessingStats(prev => ({
+            ...prev,
+            totalProducts: progress.totalProducts,
+            processedProducts: progress.processedProducts,
+          }));
+          setLoadingProgress(
+            progress.totalProducts > 0
+              ? (progress.processedProducts / progress.totalProducts) * 100
+              : 0
+          );
+        },
+      });
+
+      writeCachedSales(queryClient, query.params, result);
+      setComparison({ ...query, rows: result.rows });
+      setProcessingStats(prev => ({ ...prev, currentPhase: "complete" }));
+
+      if (result.failedProductIds.length > 0) {
+        toast({
+          title: "Comparison is incomplete",
+          description: `${result.failedProductIds.length} product(s) could not be fetched for the comparison period, so their changes are overstated.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      console.error("Comparison fetch error:", error);
+      toast({
+        title: "Error fetching comparison period",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setLoadingProgress(0);
+      setCurrentStatus("");
+      setAbortController(null);
+    }
+  }
+
+  const showCachedResult = (
+    params: ProductSalesParams,
+    input: { productInput: string; dateRange: string },
+    resultBreakdown: Breakdown | null,
+    productScope: ProductScope | null,
+    result: BatchedProductSalesResult,
+    timestamp: number
+  ) => {
+    setResultParams(params);
+    setResultInput(input);
+    setBreakdown(resultBreakdown);
+    setResultScope(productScope);
+    setProductData(result.rows);
+    setInvalidRows(result.invalidRows);
+    setFailedBatches(result.failures);
+    setCachedAt(timestamp);
+    setComparison(null);
+    setShowResults(true);
+    setProcessingStats({
+      totalProducts: 0,
+      processedProducts: 0,
+      totalVariants: aggregateByVariant(result.rows).length,
+      startTime: null,
+      currentPhase: "complete",
     });
   };
 
-  const updateGoogleSheet = async () => {
-    if (productData.length === 0) {
+  async function onSubmit(
+    data: DashboardForm,
+    { forceRefresh = false }: { forceRefresh?: boolean } = {}
+  ) {
+    const scope = toProductScope(data.scope);
+    const queryScope = isScopeEmpty(scope) ? null : scope;
+
+    // Handles, SKUs and scope filters need a round trip before the query can be planned
+    let productIds: string[];
+    try {
+      const resolved = await resolveProductIdentifiers(
+        apiClient,
+        parseProductInput(data.productId).identifiers
+      );
+      const scopedIds = queryScope ? await expandProductScope(queryClient, apiClient, queryScope) : [];
+      productIds = Array.from(new Set([...resolved.productIds, ...scopedIds.map(toProductGid)]));
+
+      if (resolved.unmatched.length > 0) {
+        toast({
+          title: "Some products weren't found",
+          description: `No product matched ${resolved.unmatched.map(describeIdentifier).join(", ")}.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Product lookup error:", error);
       toast({
-        title: "No data to update",
-        description: "Please run a query first to get data.",
+        title: "Error looking up products",
+        description: error instanceof Error ? error.message : String(error),
         variant: "destructive",
       });
       return;
     }
 
-    setUpdatingSheet(true); // start loading
-    const url = `${backendApi}/update-googlesheet`;
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Accept": "application/json",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ data: productData }),
+    if (productIds.length === 0) {
+      toast({
+        title: "No products to query",
+        description: queryScope
+          ? `Nothing matched ${describeScope(queryScope)}.`
+          : "None of the entered products could be found.",
+        variant: "destructive",
       });
+      return;
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Server error: ${response.status} - ${errorText}`);
-      }
+    // Relative ranges are resolved now, so a resumed job keeps the dates it started with
+    const { start, end } = resolveDateRange(parseDateRangeExpression(data.dateRange), resolveOptions);
+    const queryBreakdown: Breakdown | null =
+      data.granularity === "none"
+        ? null
+        : { granularity: data.granularity, fiscalCalendar: storeSettings.fiscalCalendar };
+    const params: ProductSalesParams = {
+      productIds,
+      startDate: formatIsoDate(start),
+      endDate: formatIsoDate(end),
+      granularity: requestGranularity(queryBreakdown),
+      timeZone: storeSettings.timeZone,
+    };
 
+    const comparisonQuery: ComparisonQuery | null =
+      data.comparison === "none"
+        ? null
+        : {
+            mode: data.comparison,
+            params: getComparisonParams(params, data.comparison, storeSettings.fiscalCalendar),
+          };
+
+    const cached = forceRefresh ? null : readCachedSales(queryClient, params, data.cacheTtlMinutes);
+    if (cached) {
+      showCachedResult(
+        params,
+        { productInput: data.productId, dateRange: data.dateRange },
+        queryBreakdown,
+        queryScope,
+        cached.result,
+        cached.cachedAt
+      );
       toast({
-        title: "Google Sheet Updated",
-        description: "Successfully updated the Google Sheet with current data.",
+        title: "Loaded Cached Results",
+        description: `Showing ${aggregateByVariant(cached.result.rows).length} variants cached ${formatDistanceToNow(cached.cachedAt)} ago. Use "Force Refresh" to fetch fresh data.`,
       });
+      if (comparisonQuery) await runComparison(comparisonQuery, data.cacheTtlMinutes);
+      return;
+    }
+
+    const job = createQueryJob({
+      params,
+      productInput: data.productId,
+      scope: queryScope,
+      dateRange: data.dateRange,
+      breakdown: queryBreakdown,
+      comparison: comparisonQuery,
+      batchSize: data.batchSize,
+      concurrency: data.concurrency,
+      totalBatches: planBatches(productIds, data.batchSize).length,
+    });
+
+    try {
+      await saveQueryJob(job);
     } catch (error) {
-      console.error(error);
-      toast({
-        title: "Error updating Google Sheet",
-        description: error instanceof Error ? error.message : String(error),
-        variant: "destructive",
-      });
-    } finally {
-      setUpdatingSheet(false); // stop loading
+      // The query still runs; it just can't be resumed after a reload
+      console.error("Could not save query for resuming:", error);
+    }
+
+    const result = await runQuery(job);
+    if (result && comparisonQuery) {
+      await runComparison(comparisonQuery, data.cacheTtlMinutes, forceRefresh);
+    }
+  }
+
+  const resumeQuery = async () => {
+    if (!pendingJob) return;
+
+    const { job, outcomes } = pendingJob;
+    form.reset({
+      productId: job.productInput,
+      scope: toScopeInput(job.scope),
+      dateRange: absoluteRange(parseIsoDate(job.params.startDate), parseIsoDate(job.params.endDate)),
+      batchSize: job.batchSize,
+      concurrency: job.concurrency,
+      cacheTtlMinutes: form.getValues("cacheTtlMinutes"),
+      comparison: job.comparison?.mode ?? "none",
+      granularity: job.breakdown?.granularity ?? "none",
+    });
+
+    const result = await runQuery(job, outcomes);
+    if (result && job.comparison) {
+      await runComparison(job.comparison, form.getValues("cacheTtlMinutes"));
     }
   };
 
+  /** Loads a query from the export history into the form as it was entered and runs it. */
+  const rerunQuery = (query: HistoryQuery) => {
+    form.reset({
+      productId: query.productInput,
+      scope: toScopeInput(query.scope),
+      dateRange: query.dateRange,
+      batchSize: form.getValues("batchSize"),
+      concurrency: form.getValues("concurrency"),
+      cacheTtlMinutes: form.getValues("cacheTtlMinutes"),
+      comparison: query.comparison,
+      granularity: query.breakdown?.granularity ?? "none",
+    });
+    form.handleSubmit((data) => onSubmit(data))();
+  };
+
+  // The history page links back here with the query to re-run in the navigation state
+  const rerunRequest = (location.state as { rerun?: HistoryQuery } | null)?.rerun ?? null;
+  const handledRerun = React.useRef<HistoryQuery | null>(null);
+  React.useEffect(() => {
+    if (!rerunRequest || handledRerun.current === rerunRequest) return;
+    handledRerun.current = rerunRequest;
+    navigate(location.pathname, { replace: true, state: null });
+    rerunQuery(rerunRequest);
+  });
+
+  const discardPendingJob = () => {
+    setPendingJob(null);
+    clearQueryJob().catch((error) => console.error("Could not clear saved query:", error));
+  };
+
   const clearResults = () => {
     setShowResults(false);
     setProductData([]);
+    setInvalidRows([]);
+    setFailedBatches([]);
+    setCachedAt(null);
+    setComparison(null);
+    setResultParams(null);
+    setResultInput(null);
+    setBreakdown(null);
+    setResultScope(null);
     setProcessingStats({
       totalProducts: 0,
       processedProducts: 0,
       totalVariants: 0,
-      estimatedTime: 0,
       startTime: null,
       currentPhase: "idle",
     });
     form.reset({
       productId: "",
-      startDate: (() => {
-        const d = new Date();
-        d.setDate(d.getDate() - 90);
-        return d;
-      })(),
-      endDate: new Date(),
+      scope: EMPTY_SCOPE_INPUT,
+      dateRange: DEFAULT_DATE_RANGE,
+      batchSize: form.getValues("batchSize"),
+      concurrency: form.getValues("concurrency"),
+      cacheTtlMinutes: form.getValues("cacheTtlMinutes"),
+      comparison: form.getValues("comparison"),
+      granularity: form.getValues("granularity"),
     });
   };
 
-  const getTotalSales = () => {
-    return productData.reduce((sum, item) => sum + (item.netSales || 0), 0);
-  };
-
-  const getTotalItemsSold = () => {
-    return productData.reduce((sum, item) => sum + (item.netItemsSold || 0), 0);
-  };
+  const forceRefresh = form.handleSubmit((data) => onSubmit(data, { forceRefresh: true }));
 
-  const getUniqueProducts = () => {
-    return new Set(productData.map(item => item.productTitle)).size;
-  };
+  const remainingSeconds = processingStats.startTime
+    ? estimateRemainingSeconds(
+        processingStats.startTime,
+        processingStats.processedProducts,
+        processingStats.totalProducts
+      )
+    : null;
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -417,119 +862,231 @@ const AnalyticsDashboard = () => {
             <h1 className="text-2xl font-semibold text-dashboard-header">
               Analytics-Matching Sales Dashboard
             </h1>
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/history">
+                  <ScrollText className="mr-2 h-4 w-4" /> Export History
+                </Link>
+              </Button>
+              <StoreSettingsDialog />
+            </div>
           </div>
           <p className="text-dashboard-subtitle">
             Data that matches Shopify Analytics exactly! Process unlimited products with real-time progress tracking.
           </p>
         </div>
 
+        {/* Resume interrupted query */}
+        {pendingJob && !loading && (
+          <Alert className="mb-6">
+            <History className="h-4 w-4" />
+            <AlertTitle>Unfinished query</AlertTitle>
+            <AlertDescription>
+              <p>
+                A query for {pendingJob.job.params.productIds.length} product(s)
+                {pendingJob.job.scope && ` (${describeScope(pendingJob.job.scope)})`} from{" "}
+                {pendingJob.job.params.startDate} to {pendingJob.job.params.endDate}, started{" "}
+                {formatTimestamp(pendingJob.job.createdAt, storeSettings.timeZone)}, stopped after{" "}
+                {pendingJob.job.completedBatches.length} of {pendingJob.job.totalBatches} batches.
+              </p>
+              <div className="mt-3 flex gap-2">
+                <Button size="sm" onClick={resumeQuery}>
+                  Resume query
+                </Button>
+                <Button size="sm" variant="outline" onClick={discardPendingJob}>
+                  Discard
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Form Card */}
         <Card className="shadow-lg">
           <CardContent className="p-8">
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
                 <FormField
                   control={form.control}
                   name="productId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-base font-medium">Product IDs</FormLabel>
+                      <div className="flex items-center justify-between gap-2">
+                        <FormLabel className="text-base font-medium">Product IDs</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <ProductFileImport onImport={importProducts} disabled={loading} />
+                          <ProductPicker
+                            selectedIds={selectedProductIds}
+                            onToggle={toggleProduct}
+                            disabled={loading}
+                          />
+                        </div>
+                      </div>
                       <FormControl>
                         <textarea
                           {...field}
-                          placeholder="Add unlimited products (comma-separated), e.g: 14968509825348, 14800375185732, 15123456789012, ..."
+                          placeholder="Paste product IDs, GIDs, admin or storefront URLs, handles or SKUs, separated by commas or new lines"
                           className="min-h-[120px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y"
                           disabled={loading}
                         />
                       </FormControl>
-                      <div className="text-sm text-muted-foreground">
-                        {field.value && field.value.split(',').filter(Boolean).length > 0 && (
-                          <Badge variant="outline" className="mt-2">
-                            {field.value.split(',').filter(Boolean).length} products to process
-                          </Badge>
-                        )}
-                      </div>
+                      <FormDescription>
+                        Numbers are read as product IDs. Prefix a numeric SKU with <code>sku:</code>, e.g.{" "}
+                        <code>sku:10042</code>.
+                      </FormDescription>
+                      <ProductIdChips parsed={parsedProducts} titles={productTitles} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="scope"
+                  render={({ field }) => (
+                    <FormItem>
+                      <ScopeFilters
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={loading}
+                      />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="dateRange"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date Range</FormLabel>
+                      <FormControl>
+                        <DateRangePicker
+                          ref={field.ref}
+                          value={field.value}
+                          onChange={field.onChange}
+                          disabled={loading}
+                          resolveOptions={resolveOptions}
+                        />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {/* Start Date */}
                   <FormField
                     control={form.control}
-                    name="startDate"
+                    name="comparison"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Compare To</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => field.onChange(value as ComparisonMode)}
+                          disabled={loading}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {COMPARISON_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="granularity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time Breakdown</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => field.onChange(value as Granularity | "none")}
+                          disabled={loading}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GRANULARITY_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="batchSize"
                     render={({ field }) => (
-                      <FormItem className="flex flex-col">
-                        <FormLabel>Start Date</FormLabel>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <FormControl>
-                              <Button
-                                variant="outline"
-                                className={cn(
-                                  "h-12 pl-3 text-left font-normal",
-                                  !field.value && "text-muted-foreground"
-                                )}
-                                disabled={loading}
-                              >
-                                {field.value
-                                  ? format(field.value, "MM/dd/yyyy")
-                                  : "Pick a date"}
-                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                              </Button>
-                            </FormControl>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-auto p-0" align="start">
-                            <CalendarComponent
-                              mode="single"
-                              selected={field.value}
-                              onSelect={field.onChange}
-                              initialFocus
-                              className="p-3 pointer-events-auto"
-                            />
-                          </PopoverContent>
-                        </Popover>
+                      <FormItem>
+                        <FormLabel>Products per Batch</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={250} {...field} disabled={loading} />
+                        </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
 
-                  {/* End Date */}
                   <FormField
                     control={form.control}
-                    name="endDate"
+                    name="concurrency"
                     render={({ field }) => (
-                      <FormItem className="flex flex-col">
-                        <FormLabel>End Date</FormLabel>
-                        <Popover>
-                          <PopoverTrigger asChild>
-                            <FormControl>
-                              <Button
-                                variant="outline"
-                                className={cn(
-                                  "h-12 pl-3 text-left font-normal",
-                                  !field.value && "text-muted-foreground"
-                                )}
-                                disabled={loading}
-                              >
-                                {field.value
-                                  ? format(field.value, "MM/dd/yyyy")
-                                  : "Pick a date"}
-                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                              </Button>
-                            </FormControl>
-                          </PopoverTrigger>
-                          <PopoverContent className="w-auto p-0" align="start">
-                            <CalendarComponent
-                              mode="single"
-                              selected={field.value}
-                              onSelect={field.onChange}
-                              initialFocus
-                              className="p-3 pointer-events-auto"
-                            />
-                          </PopoverContent>
-                        </Popover>
+                      <FormItem>
+                        <FormLabel>Parallel Batches</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={10} {...field} disabled={loading} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="cacheTtlMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reuse Cached Results For</FormLabel>
+                        <Select
+                          value={String(field.value)}
+                          onValueChange={(value) => field.onChange(Number(value))}
+                          disabled={loading}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CACHE_TTL_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={String(option.value)}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -583,7 +1140,7 @@ const AnalyticsDashboard = () => {
                   <div className="flex items-center gap-2">
                     <Badge variant="outline" className="bg-blue-50">
                       <Clock className="mr-1 h-3 w-3" />
-                      Est. {processingStats.estimatedTime}s
+                      {remainingSeconds === null ? "Estimating..." : `Est. ${remainingSeconds}s left`}
                     </Badge>
                     {processingStats.currentPhase !== "idle" && (
                       <Badge
@@ -609,7 +1166,9 @@ const AnalyticsDashboard = () => {
                     <BarChart3 className="h-4 w-4 text-blue-600" />
                     <div>
                       <div className="font-medium">Products</div>
-                      <div className="text-xs text-muted-foreground">{processingStats.totalProducts}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {processingStats.processedProducts} / {processingStats.totalProducts}
+                      </div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2 p-3 rounded-md bg-green-50">
@@ -649,7 +1208,7 @@ const AnalyticsDashboard = () => {
                     </div>
                     <p className="text-xs text-amber-700 mt-1">
                       Processing {processingStats.totalProducts} products may take several minutes.
-                      The system will automatically handle rate limiting and batch processing.
+                      Products are fetched in batches and failed batches are retried automatically.
                     </p>
                   </div>
                 )}
@@ -664,115 +1223,159 @@ const AnalyticsDashboard = () => {
             <CardContent className="p-8">
               <div className="mb-6 flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
                 <div>
-                  <h2 className="text-xl font-semibold mb-2">
+                  <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
                     Analytics Results
+                    {cachedAt !== null && (
+                      <Badge variant="secondary" className="font-normal">
+                        <Database className="mr-1 h-3 w-3" />
+                        Cached {formatDistanceToNow(cachedAt)} ago
+                      </Badge>
+                    )}
                   </h2>
                   <p className="text-dashboard-subtitle">
                     Product performance data matching your query
                   </p>
                 </div>
                 <div className="flex gap-2">
-                  <Button onClick={clearResults} variant="outline">
+                  {cachedAt !== null && (
+                    <Button onClick={forceRefresh} variant="outline" disabled={loading}>
+                      <RotateCw className="mr-2 h-4 w-4" /> Force Refresh
+                    </Button>
+                  )}
+                  <Button onClick={clearResults} variant="outline" disabled={loading}>
                     <RefreshCw className="mr-2 h-4 w-4" /> Clear Results
                   </Button>
-                  <Button onClick={downloadCSV} variant="outline">
-                    <Download className="mr-2 h-4 w-4" /> Download CSV
-                  </Button>
-                  <Button
-                    onClick={updateGoogleSheet}
-                    variant="outline"
-                    disabled={updatingSheet}
-                  >
-                    {updatingSheet ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Updating...
-                      </>
-                    ) : (
-                      "Update CSV"
-                    )}
-                  </Button>
+                  <ExportDialog
+                    viewRows={viewRows}
+                    allRows={sortedRows}
+                    columns={exportColumns}
+                    defaultColumnIds={defaultExportColumnIds}
+                    grouped={gridState.groupByProduct}
+                    sort={gridState.sort}
+                    details={exportDetails}
+                    query={historyQuery}
+                    disabled={loading || productData.length === 0}
+                  />
+                  <ReportActions
+                    rows={viewRows}
+                    columns={reportColumns}
+                    grouped={gridState.groupByProduct}
+                    sort={gridState.sort}
+                    summary={summary}
+                    previous={previousSummary}
+                    details={reportDetails}
+                    trend={reportTrend}
+                    query={historyQuery}
+                    disabled={loading || productData.length === 0}
+                  />
+                  <GoogleSheetDialog
+                    rows={comparedRows ?? variantRows}
+                    columns={exportColumns}
+                    defaultColumnIds={defaultExportColumnIds}
+                    query={historyQuery}
+                    disabled={loading || productData.length === 0}
+                  />
                 </div>
               </div>
 
+              {failedBatches.length > 0 && (
+                <Alert variant="destructive" className="mb-6">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    {failedBatches.reduce((sum, batch) => sum + batch.productIds.length, 0)} product(s) could not be fetched
+                  </AlertTitle>
+                  <AlertDescription>
+                    <ul className="mt-2 space-y-2 text-xs max-h-40 overflow-y-auto">
+                      {failedBatches.map((batch, i) => (
+                        <li key={i}>
+                          <div className="font-mono break-all">{batch.productIds.join(", ")}</div>
+                          <div className="opacity-80">{batch.error}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {invalidRows.length > 0 && (
+                <Alert variant="destructive" className="mb-6">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    {invalidRows.length} malformed row(s) excluded from results
+                  </AlertTitle>
+                  <AlertDescription>
+                    <ul className="mt-2 space-y-1 text-xs max-h-40 overflow-y-auto">
+                      {invalidRows.map((row, i) => (
+                        <li key={i}>
+                          <span className="font-medium">
+                            {row.productId ? `Product ${row.productId}, row ${row.index + 1}` : `Row ${row.index + 1}`}:
+                          </span>{" "}
+                          {row.issues.join("; ")}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {resultScope && (
+                <p className="mb-2 text-sm text-muted-foreground">
+                  Scope: {describeScope(resultScope)}
+                </p>
+              )}
+
+              {comparison && (
+                <p className="mb-4 text-sm text-muted-foreground">
+                  Compared with{" "}
+                  {COMPARISON_OPTIONS.find((option) => option.value === comparison.mode)?.label.toLowerCase()}:{" "}
+                  {format(parseIsoDate(comparison.params.startDate), "PP")} –{" "}
+                  {format(parseIsoDate(comparison.params.endDate), "PP")}
+                </p>
+              )}
+
               {/* Enhanced Summary Stats */}
-              {productData.length > 0 && (
-                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="text-sm font-medium text-muted-foreground">Unique Products</div>
-                      <div className="text-2xl font-bold">{getUniqueProducts()}</div>
-                    </CardContent>
-                  </Card>
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="text-sm font-medium text-muted-foreground">Total Variants</div>
-                      <div className="text-2xl font-bold">{productData.length}</div>
-                    </CardContent>
-                  </Card>
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="text-sm font-medium text-muted-foreground">Total Items Sold</div>
-                      <div className="text-2xl font-bold">{getTotalItemsSold().toLocaleString()}</div>
-                    </CardContent>
-                  </Card>
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="text-sm font-medium text-muted-foreground">Total Sales</div>
-                      <div className="text-2xl font-bold">${getTotalSales().toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                    </CardContent>
-                  </Card>
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="text-sm font-medium text-muted-foreground">Avg Sale/Item</div>
-                      <div className="text-2xl font-bold">
-                        ${getTotalItemsSold() > 0 ? (getTotalSales() / getTotalItemsSold()).toFixed(2) : "0.00"}
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
+              {variantRows.length > 0 && (
+                <SummaryCards summary={summary} previous={previousSummary} />
               )}
 
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Product Title</TableHead>
-                      <TableHead>Product Variant Title</TableHead>
-                      <TableHead>Product Variant SKU</TableHead>
-                      <TableHead className="text-right">
-                        Net Items Sold
-                      </TableHead>
-                      <TableHead className="text-right">Net Sales</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {productData.length === 0 ? (
-                      <TableRow>
-                        <TableCell colSpan={5} className="text-center py-8">
-                          <AlertCircle className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                          <p className="text-muted-foreground">No data found for the selected products and date range.</p>
-                        </TableCell>
-                      </TableRow>
-                    ) : (
-                      productData.map((item, index) => (
-                        <TableRow key={index}>
-                          <TableCell className="font-medium">{item.productTitle}</TableCell>
-                          <TableCell>{item.variantTitle}</TableCell>
-                          <TableCell className="font-mono text-sm">
-                            {item.sku || "N/A"}
-                          </TableCell>
-                          <TableCell className="text-right font-medium">
-                            {item.netItemsSold?.toLocaleString() || 0}
-                          </TableCell>
-                          <TableCell className="text-right font-medium">
-                            ${item.netSales?.toFixed(2) || "0.00"}
-                          </TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
-              </div>
+              {resultParams && breakdown && variantRows.length > 0 && (
+                <SalesTrendChart
+                  rows={productData}
+                  startDate={resultParams.startDate}
+                  endDate={resultParams.endDate}
+                  granularity={breakdown.granularity}
+                  fiscalCalendar={breakdown.fiscalCalendar}
+                  query={historyQuery}
+                />
+              )}
+
+              <Tabs defaultValue="table">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="table">Table</TabsTrigger>
+                  <TabsTrigger value="charts">
+                    <BarChart3 className="mr-2 h-4 w-4" /> Charts
+                  </TabsTrigger>
+                  <TabsTrigger value="options">Options</TabsTrigger>
+                  <TabsTrigger value="pivot">Pivot</TabsTrigger>
+                </TabsList>
+                <TabsContent value="table">
+                  <ResultsTable
+                    rows={comparedRows ?? variantRows}
+                    columns={columns}
+                    state={gridState}
+                    onStateChange={setGridState}
+                  />
+                </TabsContent>
+                <TabsContent value="charts">
+                  <ChartsPanel rows={filteredRows} />
+                </TabsContent>
+                <TabsContent value="options">
+                  <VariantOptionsPanel rows={filteredRows} />
+                </TabsContent>
+                <TabsContent value="pivot">
+                  <PivotBuilder rows={productData} context={pivotContext} query={historyQuery} />
+                </TabsContent>
+              </Tabs>
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,226 @@
+import * as React from "react";
+import { ArrowLeft, Download, Loader2, Play, ScrollText, Trash2 } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/hooks/use-toast";
+import { useExportHistory } from "@/hooks/use-export-history";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { downloadFile } from "@/lib/csv";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  describeHistoryQuery,
+  MAX_HISTORY_ENTRIES,
+  type HistoryEntry,
+  type HistoryKind,
+} from "@/lib/exportHistory";
+import { describeScope } from "@/lib/productScope";
+import { formatCurrency } from "@/lib/salesSummary";
+import { formatTimestamp } from "@/lib/timeZone";
+
+const KIND_LABELS: Record<HistoryKind, string> = {
+  export: "Download",
+  sheet: "Google Sheets",
+};
+
+type KindFilter = HistoryKind | "all";
+
+const ExportHistory = () => {
+  const entries = useExportHistory();
+  const storeSettings = useStoreSettings();
+  const navigate = useNavigate();
+  const [filter, setFilter] = React.useState<KindFilter>("all");
+
+  const shown = (entries ?? []).filter((entry) => filter === "all" || entry.kind === filter);
+
+  const redownload = (entry: HistoryEntry) => {
+    if (!entry.payload) return;
+    downloadFile(entry.payload.content, entry.payload.filename, entry.payload.mimeType);
+  };
+
+  const rerun = (entry: HistoryEntry) => {
+    if (!entry.query) return;
+    navigate("/", { state: { rerun: entry.query } });
+  };
+
+  const remove = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+    } catch (error) {
+      console.error("Could not delete history entry:", error);
+      toast({
+        title: "Could not delete entry",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearAll = async () => {
+    try {
+      await clearHistory();
+      toast({ title: "History cleared", description: "All exports and sheet updates were removed." });
+    } catch (error) {
+      console.error("Could not clear history:", error);
+      toast({
+        title: "Could not clear history",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <ScrollText className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-semibold text-dashboard-header">Export History</h1>
+            <div className="ml-auto">
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+                </Link>
+              </Button>
+            </div>
+          </div>
+          <p className="text-dashboard-subtitle">
+            Every download and Google Sheets update made from this browser, newest first. The last{" "}
+            {MAX_HISTORY_ENTRIES} are kept.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={filter}
+                onValueChange={(value) => value && setFilter(value as KindFilter)}
+              >
+                <ToggleGroupItem value="all">All</ToggleGroupItem>
+                <ToggleGroupItem value="export">Downloads</ToggleGroupItem>
+                <ToggleGroupItem value="sheet">Google Sheets</ToggleGroupItem>
+              </ToggleGroup>
+              <Button variant="outline" size="sm" onClick={clearAll} disabled={!entries || entries.length === 0}>
+                <Trash2 className="mr-2 h-4 w-4" /> Clear History
+              </Button>
+            </div>
+
+            {entries === null ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading history...
+              </div>
+            ) : shown.length === 0 ? (
+              <p className="py-12 text-center text-muted-foreground">
+                Nothing here yet. Exports and sheet updates are recorded as you make them.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead className="text-right">Net Sales</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatTimestamp(entry.createdAt, storeSettings.timeZone)}
+                      </TableCell>
+                      <TableCell>{KIND_LABELS[entry.kind]}</TableCell>
+                      <TableCell className="max-w-[220px] truncate" title={entry.destination}>
+                        {entry.destination}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.query ? (
+                          <>
+                            {describeHistoryQuery(entry.query)}
+                            {entry.query.scope && (
+                              <span className="block text-xs text-muted-foreground">
+                                {describeScope(entry.query.scope)}
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Unknown</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{entry.rowCount.toLocaleString()}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(entry.totals.netSales)}</TableCell>
+                      <TableCell>
+                        {entry.status === "success" ? (
+                          <Badge variant="secondary">Success</Badge>
+                        ) : (
+                          <Badge variant="destructive" title={entry.error}>
+                            Failed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => redownload(entry)}
+                            disabled={!entry.payload}
+                            title={entry.kind === "sheet" ? "Download the data that was sent" : "Download again"}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => rerun(entry)}
+                            disabled={!entry.query}
+                            title="Re-run this query"
+                          >
+                            <Play className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => remove(entry)}
+                            title="Delete entry"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ExportHistory;
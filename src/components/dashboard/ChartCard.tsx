@@ -0,0 +1,54 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { FileImage, ImageDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { downloadChartPng, downloadChartSvg } from "@/lib/chartExport";
+
+interface ChartCardProps {
+  title: string;
+  description: React.ReactNode;
+  filename: string;
+  children: (ref: React.RefObject<HTMLDivElement>) => React.ReactNode;
+}
+
+/** Titled frame for a chart with PNG and SVG downloads of whatever renders inside `ref`. */
+export const ChartCard = ({ title, description, filename, children }: ChartCardProps) => {
+  const ref = React.useRef<HTMLDivElement>(null);
+
+  const save = async (type: "png" | "svg") => {
+    if (!ref.current) return;
+    const name = `${filename}-${format(new Date(), "yyyy-MM-dd-HHmm")}`;
+    try {
+      if (type === "png") await downloadChartPng(ref.current, name);
+      else downloadChartSvg(ref.current, name);
+    } catch (error) {
+      console.error("Chart export failed:", error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the chart.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="mb-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">{title}</h3>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => save("png")}>
+            <ImageDown className="mr-2 h-4 w-4" /> PNG
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => save("svg")}>
+            <FileImage className="mr-2 h-4 w-4" /> SVG
+          </Button>
+        </div>
+      </div>
+      {children(ref)}
+    </div>
+  );
+};
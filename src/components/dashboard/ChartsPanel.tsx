@@ -0,0 +1,271 @@
+import * as React from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  Treemap,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ProductSalesRow } from "@/lib/api";
+import {
+  paretoCutoff,
+  paretoPoints,
+  rankSales,
+  salesTreemap,
+  type ChartLevel,
+} from "@/lib/salesCharts";
+import { formatCurrency } from "@/lib/salesSummary";
+import type { SalesMetric } from "@/lib/timeSeries";
+import { ChartCard } from "./ChartCard";
+import { CHART_COLORS, OTHER_COLOR } from "./chartColors";
+
+interface ChartsPanelProps {
+  /** Rows as filtered in the results table. */
+  rows: ProductSalesRow[];
+}
+
+const METRIC_LABELS: Record<SalesMetric, string> = {
+  netSales: "Net Sales",
+  netItemsSold: "Net Items Sold",
+};
+
+const TOP_N_OPTIONS = [10, 20, 50];
+
+/** The Pareto chart draws one bar per item, so very long tails are cut off on screen. */
+const MAX_PARETO_BARS = 100;
+
+const truncate = (label: string, length = 28) => (label.length > length ? `${label.slice(0, length - 1)}…` : label);
+
+interface TreemapTileProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  index?: number;
+  name?: string;
+}
+
+/** Products are colored tiles; their variants are outlined inside them. */
+const TreemapTile = ({ x = 0, y = 0, width = 0, height = 0, depth = 0, index = 0, name = "" }: TreemapTileProps) => {
+  if (depth === 0) return null;
+  const product = depth === 1;
+  const color = name.startsWith("Other (") ? OTHER_COLOR : CHART_COLORS[index % (CHART_COLORS.length - 1)];
+
+  return (
+    <g>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={product ? color : "transparent"}
+        fillOpacity={product ? 0.85 : 0}
+        stroke="#fff"
+        strokeWidth={product ? 2 : 1}
+      />
+      {width > 60 && height > 18 && (
+        <text
+          x={x + 6}
+          y={y + (product ? 16 : height / 2 + 4)}
+          fill="#fff"
+          fontSize={product ? 12 : 11}
+          fontWeight={product ? 600 : 400}
+        >
+          {truncate(name, Math.floor(width / 7))}
+        </text>
+      )}
+    </g>
+  );
+};
+
+export const ChartsPanel = ({ rows }: ChartsPanelProps) => {
+  const [metric, setMetric] = React.useState<SalesMetric>("netSales");
+  const [level, setLevel] = React.useState<ChartLevel>("product");
+  const [topN, setTopN] = React.useState(TOP_N_OPTIONS[0]);
+
+  const ranked = React.useMemo(() => rankSales(rows, level, metric), [rows, level, metric]);
+  const pareto = React.useMemo(() => paretoPoints(ranked), [ranked]);
+  const treemap = React.useMemo(() => salesTreemap(rows, metric), [rows, metric]);
+  const top = ranked.slice(0, topN).map((item) => ({ ...item, label: truncate(item.label) }));
+  const cutoff = paretoCutoff(pareto);
+
+  const formatValue = metric === "netSales" ? formatCurrency : (value: number) => value.toLocaleString();
+  const levelLabel = level === "product" ? "products" : "variants";
+
+  const config: ChartConfig = {
+    value: { label: METRIC_LABELS[metric], color: CHART_COLORS[0] },
+    cumulativeShare: { label: "Cumulative share", color: CHART_COLORS[2] },
+  };
+
+  const formatTooltip = (value: unknown, name: unknown) => (
+    <div className="flex w-full justify-between gap-4">
+      <span className="text-muted-foreground">{config[String(name)]?.label ?? String(name)}</span>
+      <span className="font-mono font-medium">
+        {name === "cumulativeShare" ? `${Number(value).toFixed(1)}%` : formatValue(Number(value))}
+      </span>
+    </div>
+  );
+
+  if (rows.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">No rows match the current filters.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as SalesMetric)}
+        >
+          <ToggleGroupItem value="netSales">Net Sales</ToggleGroupItem>
+          <ToggleGroupItem value="netItemsSold">Items Sold</ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={level}
+          onValueChange={(value) => value && setLevel(value as ChartLevel)}
+        >
+          <ToggleGroupItem value="product">Products</ToggleGroupItem>
+          <ToggleGroupItem value="variant">Variants</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="ml-auto text-sm text-muted-foreground">Charts follow the table's filters and search.</p>
+      </div>
+
+      <ChartCard
+        title={`Top ${levelLabel} by ${METRIC_LABELS[metric].toLowerCase()}`}
+        description={`${Math.min(topN, ranked.length)} of ${ranked.length.toLocaleString()} ${levelLabel}`}
+        filename={`top-${levelLabel}-${metric}`}
+      >
+        {(ref) => (
+          <>
+            <div className="mb-2 flex justify-end">
+              <Select value={String(topN)} onValueChange={(value) => setTopN(Number(value))}>
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOP_N_OPTIONS.map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      Top {n}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ChartContainer
+              ref={ref}
+              config={config}
+              className="aspect-auto w-full"
+              style={{ height: Math.max(240, top.length * 28 + 40) }}
+            >
+              <BarChart data={top} layout="vertical" margin={{ left: 12, right: 24 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value: number) => formatValue(value)} />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={200} interval={0} />
+                <ChartTooltip content={<ChartTooltipContent formatter={formatTooltip} />} />
+                <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </ChartCard>
+
+      <ChartCard
+        title="Pareto analysis"
+        description={
+          pareto.length > 0
+            ? `${cutoff.toLocaleString()} of ${pareto.length.toLocaleString()} ${levelLabel} (${((cutoff / pareto.length) * 100).toFixed(1)}%) make up 80% of ${METRIC_LABELS[metric].toLowerCase()}${pareto.length > MAX_PARETO_BARS ? `; showing the top ${MAX_PARETO_BARS}` : ""}`
+            : `No positive ${METRIC_LABELS[metric].toLowerCase()} to rank`
+        }
+        filename={`pareto-${levelLabel}-${metric}`}
+      >
+        {(ref) => (
+          <ChartContainer ref={ref} config={config} className="aspect-auto h-80 w-full">
+            <ComposedChart data={pareto.slice(0, MAX_PARETO_BARS)} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="rank" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+              <YAxis
+                yAxisId="value"
+                tickLine={false}
+                axisLine={false}
+                width={72}
+                tickFormatter={(value: number) => formatValue(value)}
+              />
+              <YAxis
+                yAxisId="share"
+                orientation="right"
+                domain={[0, 100]}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => `${value}%`}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => (payload?.[0] ? String(payload[0].payload.label) : "")}
+                    formatter={formatTooltip}
+                  />
+                }
+              />
+              <ReferenceLine yAxisId="share" y={80} stroke={OTHER_COLOR} strokeDasharray="4 4" />
+              <Bar yAxisId="value" dataKey="value" fill="var(--color-value)" />
+              <Line
+                yAxisId="share"
+                dataKey="cumulativeShare"
+                type="monotone"
+                stroke="var(--color-cumulativeShare)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard
+        title="Sales share"
+        description={`${METRIC_LABELS[metric]} by product, split into variants`}
+        filename={`treemap-${metric}`}
+      >
+        {(ref) => (
+          <ChartContainer ref={ref} config={config} className="aspect-auto h-96 w-full">
+            <Treemap data={treemap} dataKey="value" nameKey="name" isAnimationActive={false} content={<TreemapTile />}>
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    hideLabel
+                    formatter={formatTooltip}
+                  />
+                }
+              />
+            </Treemap>
+          </ChartContainer>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Columns3, Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ALL_ROWS,
+  isFilterActive,
+  moveColumn,
+  orderedColumns,
+  PAGE_SIZE_OPTIONS,
+  type ColumnFilter,
+  type GridColumn,
+  type GridState,
+} from "@/lib/dataGrid";
+
+const parseBound = (value: string) => (value.trim() === "" || Number.isNaN(Number(value)) ? null : Number(value));
+
+interface ColumnFilterButtonProps<T> {
+  column: GridColumn<T>;
+  filter: ColumnFilter | undefined;
+  onChange: (filter: ColumnFilter | undefined) => void;
+}
+
+export function ColumnFilterButton<T>({ column, filter, onChange }: ColumnFilterButtonProps<T>) {
+  const active = isFilterActive(filter);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={`Filter ${column.label}`}
+          className={cn(
+            "rounded p-0.5 hover:bg-muted",
+            active ? "text-primary" : "text-muted-foreground/60"
+          )}
+        >
+          <Filter className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 space-y-3" align="start">
+        <div className="text-sm font-medium">{column.label}</div>
+        {column.kind === "text" ? (
+          <Input
+            autoFocus
+            placeholder="Contains..."
+            value={filter?.type === "text" ? filter.query : ""}
+            onChange={(event) => onChange({ type: "text", query: event.target.value })}
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              placeholder="Min"
+              value={filter?.type === "range" && filter.min !== null ? filter.min : ""}
+              onChange={(event) =>
+                onChange({
+                  type: "range",
+                  min: parseBound(event.target.value),
+                  max: filter?.type === "range" ? filter.max : null,
+                })
+              }
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              placeholder="Max"
+              value={filter?.type === "range" && filter.max !== null ? filter.max : ""}
+              onChange={(event) =>
+                onChange({
+                  type: "range",
+                  min: filter?.type === "range" ? filter.min : null,
+                  max: parseBound(event.target.value),
+                })
+              }
+            />
+          </div>
+        )}
+        {active && (
+          <Button type="button" variant="ghost" size="sm" className="w-full" onClick={() => onChange(undefined)}>
+            Clear filter
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ColumnSettingsProps<T> {
+  columns: GridColumn<T>[];
+  state: GridState;
+  onStateChange: (state: GridState) => void;
+}
+
+/** Show/hide and reorder columns. At least one column always stays visible. */
+export function ColumnSettings<T>({ columns, state, onStateChange }: ColumnSettingsProps<T>) {
+  const ordered = orderedColumns(columns, state);
+  const visibleCount = ordered.filter((column) => !state.hiddenColumns.includes(column.id)).length;
+
+  const toggle = (id: string, visible: boolean) =>
+    onStateChange({
+      ...state,
+      hiddenColumns: visible
+        ? state.hiddenColumns.filter((hidden) => hidden !== id)
+        : [...state.hiddenColumns, id],
+    });
+
+  const move = (id: string, offset: -1 | 1) =>
+    onStateChange({ ...state, columnOrder: moveColumn(columns, state, id, offset) });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="end">
+        {ordered.map((column, index) => {
+          const visible = !state.hiddenColumns.includes(column.id);
+          return (
+            <div key={column.id} className="flex items-center gap-2 rounded px-2 py-1 hover:bg-muted/50">
+              <Checkbox
+                id={`column-${column.id}`}
+                checked={visible}
+                disabled={visible && visibleCount === 1}
+                onCheckedChange={(checked) => toggle(column.id, checked === true)}
+              />
+              <label htmlFor={`column-${column.id}`} className="flex-1 text-sm">
+                {column.label}
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === 0}
+                onClick={() => move(column.id, -1)}
+                aria-label={`Move ${column.label} left`}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === ordered.length - 1}
+                onClick={() => move(column.id, 1)}
+                aria-label={`Move ${column.label} right`}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface GridPaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export const GridPagination = ({
+  page,
+  pageCount,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}: GridPaginationProps) => {
+  const first = total === 0 ? 0 : page * pageSize + 1;
+  const last = pageSize === ALL_ROWS ? total : Math.min(total, (page + 1) * pageSize);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 pt-4 text-sm text-muted-foreground">
+      <div className="flex items-center gap-2">
+        Rows per page
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[72px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size === ALL_ROWS ? "All" : size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <span>
+          {first.toLocaleString()}–{last.toLocaleString()} of {total.toLocaleString()}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          disabled={page === 0}
+          onClick={() => onPageChange(page - 1)}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span>
+          Page {page + 1} of {pageCount}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          disabled={page >= pageCount - 1}
+          onClick={() => onPageChange(page + 1)}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  absoluteRange,
+  DATE_RANGE_PRESETS,
+  formatDateRangeExpression,
+  formatIsoDate,
+  parseDateRangeExpression,
+  parseIsoDate,
+  resolveDateRange,
+  type RelativeUnit,
+  type ResolveOptions,
+} from "@/lib/dateRanges";
+
+const RELATIVE = "__relative";
+const CUSTOM = "__custom";
+
+interface DateRangePickerProps
+  extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "value" | "onChange"> {
+  /** A date range expression, see `@/lib/dateRanges`. */
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  /** Store time zone and fiscal calendar used to preview the resolved dates. */
+  resolveOptions?: ResolveOptions;
+}
+
+export const DateRangePicker = React.forwardRef<HTMLButtonElement, DateRangePickerProps>(
+  ({ value, onChange, disabled, resolveOptions, ...props }, ref) => {
+    const expression = parseDateRangeExpression(value);
+    const resolved = expression ? resolveDateRange(expression, resolveOptions) : null;
+
+    const mode = DATE_RANGE_PRESETS.some((preset) => preset.expression === value)
+      ? value
+      : expression?.type === "relative"
+        ? RELATIVE
+        : CUSTOM;
+
+    const onModeChange = (next: string) => {
+      if (next === RELATIVE) {
+        onChange(formatDateRangeExpression({ type: "relative", amount: 14, unit: "day" }));
+      } else if (next === CUSTOM) {
+        // Start the custom range from whatever is currently selected
+        onChange(resolved ? absoluteRange(resolved.start, resolved.end) : "");
+      } else {
+        onChange(next);
+      }
+    };
+
+    const onRelativeChange = (amount: number, unit: RelativeUnit) => {
+      onChange(formatDateRangeExpression({ type: "relative", amount: Math.max(1, amount || 1), unit }));
+    };
+
+    const onCalendarSelect = (range: DateRange | undefined) => {
+      if (!range?.from) {
+        onChange("");
+      } else if (!range.to) {
+        // An open-ended selection is kept as a single-day range until the end is picked
+        onChange(`${formatIsoDate(range.from)}..`);
+      } else {
+        onChange(absoluteRange(range.from, range.to));
+      }
+    };
+
+    const partialStart = mode === CUSTOM && /^\d{4}-\d{2}-\d{2}\.\.$/.test(value) ? value.slice(0, 10) : null;
+    const calendarSelection: DateRange | undefined = resolved
+      ? { from: resolved.start, to: resolved.end }
+      : partialStart
+        ? { from: parseIsoDate(partialStart), to: undefined }
+        : undefined;
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Select value={mode} onValueChange={onModeChange} disabled={disabled}>
+            <SelectTrigger ref={ref} className="h-12 md:w-56" {...props}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGE_PRESETS.map((preset) => (
+                <SelectItem key={preset.expression} value={preset.expression}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={RELATIVE}>Last N days / weeks / months</SelectItem>
+              <SelectItem value={CUSTOM}>Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {mode === RELATIVE && expression?.type === "relative" && (
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                className="h-12 w-24"
+                value={expression.amount}
+                onChange={(event) => onRelativeChange(Number(event.target.value), expression.unit)}
+                disabled={disabled}
+                aria-label="Number of periods"
+              />
+              <Select
+                value={expression.unit}
+                onValueChange={(unit) => onRelativeChange(expression.amount, unit as RelativeUnit)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-12 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Days</SelectItem>
+                  <SelectItem value="week">Weeks</SelectItem>
+                  <SelectItem value="month">Months</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {mode === CUSTOM && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "h-12 pl-3 text-left font-normal md:w-72",
+                    !calendarSelection && "text-muted-foreground"
+                  )}
+                  disabled={disabled}
+                >
+                  {calendarSelection?.from
+                    ? `${format(calendarSelection.from, "MM/dd/yyyy")} – ${
+                        calendarSelection.to ? format(calendarSelection.to, "MM/dd/yyyy") : "Pick an end date"
+                      }`
+                    : "Pick a date range"}
+                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <CalendarComponent
+                  mode="range"
+                  selected={calendarSelection}
+                  onSelect={onCalendarSelect}
+                  defaultMonth={calendarSelection?.from}
+                  numberOfMonths={2}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+
+        {resolved && (
+          <p className="text-sm text-muted-foreground">
+            {format(resolved.start, "PPP")} – {format(resolved.end, "PPP")}
+            {expression?.type !== "absolute" && " (updates automatically)"}
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+DateRangePicker.displayName = "DateRangePicker";
@@ -0,0 +1,23 @@
+import { cn } from "@/lib/utils";
+import { formatPercent, type Delta } from "@/lib/comparison";
+
+interface DeltaValueProps {
+  delta: Delta;
+  format: (value: number) => string;
+  className?: string;
+}
+
+export const DeltaValue = ({ delta, format, className }: DeltaValueProps) => (
+  <span
+    className={cn(
+      "whitespace-nowrap",
+      delta.absolute > 0 && "text-green-700",
+      delta.absolute < 0 && "text-red-700",
+      delta.absolute === 0 && "text-muted-foreground",
+      className
+    )}
+  >
+    {delta.absolute > 0 ? "+" : ""}
+    {format(delta.absolute)} ({formatPercent(delta.percent)})
+  </span>
+);
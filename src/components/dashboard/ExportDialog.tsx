@@ -0,0 +1,357 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { ClipboardCopy, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/csv";
+import type { SortState } from "@/lib/dataGrid";
+import {
+  buildResultTable,
+  copyTableToClipboard,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  renderExport,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportSummaryItem,
+} from "@/lib/exportEngine";
+import { historyTotals, recordHistory, type HistoryQuery } from "@/lib/exportHistory";
+import type { ResultColumn, ResultRow } from "@/lib/resultColumns";
+import { summarizeSales } from "@/lib/salesSummary";
+
+interface ExportDialogProps {
+  /** Rows as the table shows them: filtered and sorted, across all pages. */
+  viewRows: ResultRow[];
+  /** Every row, unfiltered but in the table's sort order. */
+  allRows: ResultRow[];
+  /** Every available column, in table order. */
+  columns: ResultColumn[];
+  /** Columns picked when the dialog first opens, usually the visible ones. */
+  defaultColumnIds: string[];
+  grouped: boolean;
+  sort: SortState | null;
+  /** Query details for the XLSX summary sheet, e.g. the date range. */
+  details: ExportSummaryItem[];
+  /** Logged with each download so it can be re-run from the history page. */
+  query: HistoryQuery | null;
+  disabled?: boolean;
+}
+
+type RowScope = "view" | "all";
+
+const TEXT_FORMATS: ExportFormat[] = ["csv", "tsv"];
+
+export const ExportDialog = ({
+  viewRows,
+  allRows,
+  columns,
+  defaultColumnIds,
+  grouped,
+  sort,
+  details,
+  query,
+  disabled,
+}: ExportDialogProps) => {
+  const [open, setOpen] = React.useState(false);
+  const [options, setOptions] = React.useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [scope, setScope] = React.useState<RowScope>("view");
+  const [groupRows, setGroupRows] = React.useState(grouped);
+  const [columnIds, setColumnIds] = React.useState<string[]>(defaultColumnIds);
+  const [busy, setBusy] = React.useState<"download" | "copy" | null>(null);
+
+  // Each opening starts from what the table currently shows
+  React.useEffect(() => {
+    if (!open) return;
+    setColumnIds(defaultColumnIds);
+    setGroupRows(grouped);
+  }, [open, defaultColumnIds, grouped]);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions((current) => ({ ...current, ...patch }));
+
+  const rows = scope === "view" ? viewRows : allRows;
+  const selectedColumns = columns.filter((column) => columnIds.includes(column.id));
+  const textFormat = TEXT_FORMATS.includes(options.format);
+
+  const buildTable = () => buildResultTable(rows, selectedColumns, { grouped: groupRows, sort });
+
+  const summaryItems = (): ExportSummaryItem[] => {
+    const summary = summarizeSales(rows);
+    return [
+      ...details,
+      { label: "Rows", value: scope === "view" ? "Filtered view" : "All results" },
+      { label: "Products", value: summary.uniqueProducts },
+      { label: "Variants", value: summary.totalVariants },
+      { label: "Net Items Sold", value: summary.totalItemsSold },
+      { label: "Net Sales", value: Number(summary.totalSales.toFixed(2)) },
+      { label: "Avg. Sale per Item", value: Number(summary.avgSalePerItem.toFixed(2)) },
+      { label: "Exported", value: format(new Date(), "yyyy-MM-dd HH:mm") },
+    ];
+  };
+
+  const download = async () => {
+    setBusy("download");
+    const history = {
+      kind: "export" as const,
+      destination: EXPORT_FORMATS.find((candidate) => candidate.value === options.format)?.label ?? options.format,
+      query,
+      rowCount: rows.length,
+      totals: historyTotals(rows),
+    };
+    try {
+      const file = await renderExport(buildTable(), options, {
+        basename: `analytics-data-${format(new Date(), "yyyy-MM-dd-HHmm")}`,
+        summary: summaryItems(),
+      });
+      downloadFile(file.content, file.filename, file.mimeType);
+      recordHistory({
+        ...history,
+        status: "success",
+        payload: {
+          content: new Blob([file.content], { type: file.mimeType }),
+          filename: file.filename,
+          mimeType: file.mimeType,
+        },
+      });
+      toast({
+        title: "Export downloaded",
+        description: `${rows.length} variants saved to ${file.filename}`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      recordHistory({
+        ...history,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        payload: null,
+      });
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not create the export file.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copy = async () => {
+    setBusy("copy");
+    try {
+      await copyTableToClipboard(buildTable(), options);
+      toast({
+        title: "Copied to clipboard",
+        description: `${rows.length} variants ready to paste into a spreadsheet`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error("Copy failed:", error);
+      toast({
+        title: "Copy failed",
+        description: error instanceof Error ? error.message : "Could not copy to the clipboard.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleColumn = (id: string, checked: boolean) =>
+    setColumnIds((current) => (checked ? [...current, id] : current.filter((existing) => existing !== id)));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Download className="mr-2 h-4 w-4" /> Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export results</DialogTitle>
+          <DialogDescription>
+            Download the results as a file or copy them for pasting into a spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={options.format} onValueChange={(value) => update({ format: value as ExportFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rows</Label>
+              <RadioGroup value={scope} onValueChange={(value) => setScope(value as RowScope)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="view" id="export-scope-view" />
+                  <Label htmlFor="export-scope-view" className="font-normal">
+                    Filtered view ({viewRows.length.toLocaleString()} rows)
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="all" id="export-scope-all" />
+                  <Label htmlFor="export-scope-all" className="font-normal">
+                    All results ({allRows.length.toLocaleString()} rows)
+                  </Label>
+                </div>
+              </RadioGroup>
+              <div className="flex items-center gap-2 pt-1">
+                <Checkbox
+                  id="export-grouped"
+                  checked={groupRows}
+                  onCheckedChange={(checked) => setGroupRows(checked === true)}
+                />
+                <Label htmlFor="export-grouped" className="font-normal">
+                  Add a subtotal row per product
+                </Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Numbers</Label>
+              <Select
+                value={options.decimals}
+                onValueChange={(value) => update({ decimals: value as ExportOptions["decimals"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">Round money to cents</SelectItem>
+                  <SelectItem value="full">Full precision</SelectItem>
+                </SelectContent>
+              </Select>
+              {/* Also applies to the clipboard, whatever the file format */}
+              <Select
+                value={options.decimalSeparator}
+                onValueChange={(value) => update({ decimalSeparator: value as ExportOptions["decimalSeparator"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Decimal point (1234.56)</SelectItem>
+                  <SelectItem value=",">Decimal comma (1234,56)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {textFormat && (
+              <div className="space-y-2">
+                <Label>Text options</Label>
+                {options.format === "csv" && (
+                  <Select
+                    value={options.delimiter}
+                    onValueChange={(value) => update({ delimiter: value as ExportOptions["delimiter"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=",">Comma delimiter</SelectItem>
+                      <SelectItem value=";">Semicolon delimiter</SelectItem>
+                      <SelectItem value="|">Pipe delimiter</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="export-bom"
+                    checked={options.bom}
+                    onCheckedChange={(checked) => update({ bom: checked === true })}
+                  />
+                  <Label htmlFor="export-bom" className="font-normal">
+                    Add BOM so Excel detects UTF-8
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="export-quote-all"
+                    checked={options.quoting === "all"}
+                    onCheckedChange={(checked) => update({ quoting: checked === true ? "all" : "minimal" })}
+                  />
+                  <Label htmlFor="export-quote-all" className="font-normal">
+                    Quote every field
+                  </Label>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="max-h-80 space-y-1 overflow-y-auto rounded-md border p-2">
+              {columns.map((column) => {
+                const checked = columnIds.includes(column.id);
+                return (
+                  <div key={column.id} className="flex items-center gap-2 rounded px-2 py-1 hover:bg-muted/50">
+                    <Checkbox
+                      id={`export-column-${column.id}`}
+                      checked={checked}
+                      disabled={checked && columnIds.length === 1}
+                      onCheckedChange={(value) => toggleColumn(column.id, value === true)}
+                    />
+                    <Label htmlFor={`export-column-${column.id}`} className="flex-1 font-normal">
+                      {column.label}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={copy} disabled={busy !== null || rows.length === 0}>
+            {busy === "copy" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ClipboardCopy className="mr-2 h-4 w-4" />
+            )}
+            Copy to clipboard
+          </Button>
+          <Button type="button" onClick={download} disabled={busy !== null || rows.length === 0}>
+            {busy === "download" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
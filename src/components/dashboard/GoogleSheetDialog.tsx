@@ -0,0 +1,486 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowDown, ArrowUp, Eye, Loader2, Save, Sheet, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useSheetDestinations } from "@/hooks/use-sheet-destinations";
+import { ApiError, apiClient, type UpdateGoogleSheetRequest } from "@/lib/api";
+import { historyTotals, recordHistory, type HistoryQuery } from "@/lib/exportHistory";
+import { exportHeaders, type ResultColumn, type ResultRow } from "@/lib/resultColumns";
+import {
+  deleteSheetDestination,
+  describeTarget,
+  mergeColumnMapping,
+  parseSpreadsheetId,
+  saveSheetDestination,
+  sheetRequest,
+  SKU_FIELD,
+  skuColumn,
+  WRITE_MODES,
+  type SheetColumnMapping,
+  type SheetDestination,
+} from "@/lib/sheetDestinations";
+import { diffSheet, hasChanges, type SheetDiff } from "@/lib/sheetDiff";
+import { SheetDiffPreview } from "./SheetDiffPreview";
+
+interface GoogleSheetDialogProps {
+  /** Every result row; the sheet always gets the full result, not the filtered view. */
+  rows: ResultRow[];
+  /** Every available column, in table order. */
+  columns: ResultColumn[];
+  /** Columns mapped for a new destination, usually the visible ones. */
+  defaultColumnIds: string[];
+  /** Logged with each update so it can be re-run from the history page. */
+  query: HistoryQuery | null;
+  disabled?: boolean;
+}
+
+const NEW_DESTINATION = "new";
+
+const DestinationFormSchema = z
+  .object({
+    name: z.string().trim().max(60, "Keep the name under 60 characters"),
+    spreadsheetId: z
+      .string()
+      .trim()
+      .min(1, "Enter a spreadsheet ID or URL")
+      .refine((value) => /^[a-zA-Z0-9_-]{20,}$/.test(parseSpreadsheetId(value)), "Not a spreadsheet ID or URL"),
+    sheetName: z.string().trim().min(1, "Enter the tab name"),
+    writeMode: z.enum(["replace", "append", "upsert"]),
+    columns: z.array(z.object({ field: z.string(), header: z.string().trim(), include: z.boolean() })),
+  })
+  .superRefine((data, ctx) => {
+    const included = data.columns.filter((mapping) => mapping.include);
+    if (included.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["columns"], message: "Map at least one column" });
+    }
+    const headers = included.map((mapping) => mapping.header || mapping.field);
+    const duplicate = headers.find((header, index) => headers.indexOf(header) !== index);
+    if (duplicate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["columns"], message: `"${duplicate}" is used twice` });
+    }
+    if (data.writeMode === "upsert" && !included.some((mapping) => mapping.field === SKU_FIELD)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["writeMode"],
+        message: `Upserting needs the ${SKU_FIELD} column to match rows on`,
+      });
+    }
+  });
+
+type DestinationForm = z.infer<typeof DestinationFormSchema>;
+
+/** A previewed update waiting for confirmation. */
+interface PendingUpdate {
+  destination: SheetDestination;
+  request: UpdateGoogleSheetRequest;
+  diff: SheetDiff;
+}
+
+export const GoogleSheetDialog = ({ rows, columns, defaultColumnIds, query, disabled }: GoogleSheetDialogProps) => {
+  const destinations = useSheetDestinations();
+  const [open, setOpen] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState(NEW_DESTINATION);
+  const [busy, setBusy] = React.useState<"preview" | "send" | null>(null);
+  const [pending, setPending] = React.useState<PendingUpdate | null>(null);
+
+  const form = useForm<DestinationForm>({ resolver: zodResolver(DestinationFormSchema) });
+  const { fields, move } = useFieldArray({ control: form.control, name: "columns" });
+
+  const fieldNames = React.useMemo(() => exportHeaders(columns), [columns]);
+  const defaultFields = React.useMemo(
+    () => exportHeaders(columns.filter((column) => defaultColumnIds.includes(column.id))),
+    [columns, defaultColumnIds]
+  );
+
+  const load = (id: string) => {
+    const saved = destinations.find((destination) => destination.id === id);
+    setSelectedId(saved ? saved.id : NEW_DESTINATION);
+    form.reset({
+      name: saved?.name ?? "",
+      spreadsheetId: saved?.spreadsheetId ?? "",
+      sheetName: saved?.sheetName ?? "Sheet1",
+      writeMode: saved?.writeMode ?? "replace",
+      columns: mergeColumnMapping(saved?.columns ?? [], fieldNames, defaultFields),
+    });
+  };
+
+  // Each opening starts from the most recently used destination
+  const changeOpen = (next: boolean) => {
+    if (next) load(destinations[0]?.id ?? NEW_DESTINATION);
+    setOpen(next);
+  };
+
+  const toDestination = (data: DestinationForm, id: string): SheetDestination => ({
+    id,
+    name: data.name || `${data.sheetName} (${parseSpreadsheetId(data.spreadsheetId).slice(0, 8)}…)`,
+    spreadsheetId: parseSpreadsheetId(data.spreadsheetId),
+    sheetName: data.sheetName,
+    writeMode: data.writeMode,
+    columns: (data.columns as SheetColumnMapping[]).map((mapping) => ({
+      ...mapping,
+      header: mapping.header || mapping.field,
+    })),
+  });
+
+  const save = form.handleSubmit((data) => {
+    const destination = toDestination(data, selectedId === NEW_DESTINATION ? crypto.randomUUID() : selectedId);
+    saveSheetDestination(destination);
+    setSelectedId(destination.id);
+    form.setValue("name", destination.name);
+    toast({ title: "Destination saved", description: `"${destination.name}" is ready to reuse.` });
+  });
+
+  const remove = () => {
+    const saved = destinations.find((destination) => destination.id === selectedId);
+    if (!saved) return;
+    deleteSheetDestination(saved.id);
+    load(NEW_DESTINATION);
+    toast({ title: "Destination deleted", description: `"${saved.name}" was removed.` });
+  };
+
+  // Reads the tab first so the user sees exactly what the write mode would do to it
+  const preview = form.handleSubmit(async (data) => {
+    const destination = toDestination(data, selectedId);
+    const request = sheetRequest(rows, columns, destination);
+    setBusy("preview");
+    try {
+      const contents = await apiClient
+        .readGoogleSheet(request.destination)
+        .catch((error: unknown) => {
+          // A missing tab is created on write, so it previews as empty
+          if (error instanceof ApiError && error.status === 404) return { headers: [], rows: [] };
+          throw error;
+        });
+      setPending({ destination, request, diff: diffSheet(contents, request, skuColumn(destination) ?? null) });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Could not read the Google Sheet",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  });
+
+  const send = async () => {
+    if (!pending) return;
+    const { destination, request } = pending;
+    const history = {
+      kind: "sheet" as const,
+      destination: describeTarget(request.destination),
+      query,
+      rowCount: rows.length,
+      totals: historyTotals(rows),
+      payload: {
+        content: new Blob([JSON.stringify(request, null, 2)], { type: "application/json" }),
+        filename: `google-sheet-update-${format(new Date(), "yyyy-MM-dd-HHmm")}.json`,
+        mimeType: "application/json",
+      },
+    };
+    setBusy("send");
+    try {
+      await apiClient.updateGoogleSheet(request);
+      recordHistory({ ...history, status: "success" });
+      // Keeps saved destinations in most-recently-used order without saving unsaved edits
+      const saved = destinations.find((existing) => existing.id === selectedId);
+      if (saved) saveSheetDestination(saved);
+
+      toast({
+        title: "Google Sheet Updated",
+        description: `${rows.length} variants written to "${destination.sheetName}" (${WRITE_MODES.find((mode) => mode.value === destination.writeMode)?.label.toLowerCase()}).`,
+      });
+      setPending(null);
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      recordHistory({ ...history, status: "error", error: error instanceof Error ? error.message : String(error) });
+      toast({
+        title: "Error updating Google Sheet",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Sheet className="mr-2 h-4 w-4" /> Send to Google Sheets
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Send to Google Sheets</DialogTitle>
+          <DialogDescription>
+            Choose where the results go and how they're written. Save destinations you use regularly.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Destination</Label>
+            <Select value={selectedId} onValueChange={load}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_DESTINATION}>New destination</SelectItem>
+                {destinations.map((destination) => (
+                  <SelectItem key={destination.id} value={destination.id}>
+                    {destination.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedId !== NEW_DESTINATION && (
+            <Button type="button" variant="outline" size="icon" onClick={remove} aria-label="Delete destination">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={preview} className="space-y-4">
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="spreadsheetId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Spreadsheet</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Spreadsheet ID or URL" {...field} />
+                      </FormControl>
+                      <FormDescription>Paste the sheet's URL; the ID is taken from it.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="sheetName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tab</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Sheet1" {...field} />
+                      </FormControl>
+                      <FormDescription>Created if the spreadsheet doesn't have it yet.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="writeMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Write Mode</FormLabel>
+                      <FormControl>
+                        <RadioGroup value={field.value} onValueChange={field.onChange}>
+                          {WRITE_MODES.map((mode) => (
+                            <div key={mode.value} className="flex items-start gap-2">
+                              <RadioGroupItem value={mode.value} id={`sheet-mode-${mode.value}`} className="mt-0.5" />
+                              <Label htmlFor={`sheet-mode-${mode.value}`} className="font-normal">
+                                {mode.label}
+                                <span className="block text-xs text-muted-foreground">{mode.description}</span>
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Destination Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Weekly merch report" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="columns"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Columns</FormLabel>
+                    <FormDescription>Pick the fields to write, their sheet column names and order.</FormDescription>
+                    <div className="max-h-96 space-y-1 overflow-y-auto rounded-md border p-2">
+                      {fields.map((mapping, index) => (
+                        <div key={mapping.id} className="flex items-center gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`columns.${index}.include`}
+                            render={({ field }) => (
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(checked === true)}
+                                aria-label={`Include ${mapping.field}`}
+                              />
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`columns.${index}.header`}
+                            render={({ field }) => (
+                              <Input
+                                className="h-8 flex-1"
+                                placeholder={mapping.field}
+                                title={`Sheet column for ${mapping.field}`}
+                                {...field}
+                              />
+                            )}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={index === 0}
+                            onClick={() => move(index, index - 1)}
+                            aria-label={`Move ${mapping.field} up`}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={index === fields.length - 1}
+                            onClick={() => move(index, index + 1)}
+                            aria-label={`Move ${mapping.field} down`}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={save} disabled={busy !== null}>
+                <Save className="mr-2 h-4 w-4" />
+                {selectedId === NEW_DESTINATION ? "Save destination" : "Update destination"}
+              </Button>
+              <Button type="submit" disabled={busy !== null || rows.length === 0}>
+                {busy === "preview" ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Reading sheet...
+                  </>
+                ) : (
+                  <>
+                    <Eye className="mr-2 h-4 w-4" /> Preview changes
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+
+        <AlertDialog open={pending !== null} onOpenChange={(next) => !next && busy === null && setPending(null)}>
+          <AlertDialogContent className="max-w-4xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Write to "{pending?.destination.sheetName}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pending && WRITE_MODES.find((mode) => mode.value === pending.destination.writeMode)?.description}.
+                This can't be undone from the dashboard, so check the changes below first.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {pending && <SheetDiffPreview diff={pending.diff} />}
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={busy !== null}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className={cn(pending?.diff.counts.removed && buttonVariants({ variant: "destructive" }))}
+                disabled={
+                  busy !== null || !pending || !hasChanges(pending.diff) || pending.diff.missingKeyColumn !== null
+                }
+                onClick={(event) => {
+                  // Stay open until the write finishes so failures are shown in context
+                  event.preventDefault();
+                  send();
+                }}
+              >
+                {busy === "send" ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Updating...
+                  </>
+                ) : (
+                  "Write to sheet"
+                )}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,368 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { Download, GripVertical, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/hooks/use-toast";
+import type { ProductSalesRow } from "@/lib/api";
+import { downloadFile, toCsv } from "@/lib/csv";
+import { historyTotals, recordHistory, type HistoryQuery } from "@/lib/exportHistory";
+import {
+  buildPivot,
+  cellKey,
+  DEFAULT_PIVOT_CONFIG,
+  PIVOT_DIMENSIONS,
+  PIVOT_MEASURES,
+  pivotDimensionLabel,
+  pivotExport,
+  selectedMeasures,
+  type PivotConfig,
+  type PivotContext,
+  type PivotDimensionId,
+  type PivotMeasureId,
+  type PivotTotals,
+} from "@/lib/pivot";
+import { formatCurrency } from "@/lib/salesSummary";
+
+interface PivotBuilderProps {
+  rows: ProductSalesRow[];
+  context: PivotContext;
+  /** Logged with each CSV download so it can be re-run from the history page. */
+  query: HistoryQuery | null;
+}
+
+type Axis = "rows" | "columns";
+
+/** Beyond these the table stops being readable; the export still has everything. */
+const MAX_COLUMNS = 40;
+const MAX_ROWS = 500;
+
+const DRAG_TYPE = "application/x-pivot-dimension";
+
+interface DimensionChipProps {
+  id: PivotDimensionId;
+  onDrop?: (event: React.DragEvent) => void;
+  children?: React.ReactNode;
+}
+
+const DimensionChip = ({ id, onDrop, children }: DimensionChipProps) => (
+  <div
+    draggable
+    onDragStart={(event) => {
+      event.dataTransfer.setData(DRAG_TYPE, id);
+      event.dataTransfer.effectAllowed = "move";
+    }}
+    onDragOver={onDrop && ((event) => event.preventDefault())}
+    onDrop={onDrop}
+    className="flex cursor-grab items-center gap-1 rounded-md border bg-background px-2 py-1 text-sm shadow-sm active:cursor-grabbing"
+  >
+    <GripVertical className="h-3 w-3 text-muted-foreground" />
+    {pivotDimensionLabel(id)}
+    {children}
+  </div>
+);
+
+interface DimensionZoneProps {
+  label: string;
+  dimensions: PivotDimensionId[];
+  available: PivotDimensionId[];
+  onDrop: (id: PivotDimensionId, index: number) => void;
+  onRemove: (id: PivotDimensionId) => void;
+}
+
+/** Drop target for one axis. Chips can also be added from the menu, for keyboard users. */
+const DimensionZone = ({ label, dimensions, available, onDrop, onRemove }: DimensionZoneProps) => {
+  const [over, setOver] = React.useState(false);
+
+  const drop = (event: React.DragEvent, index: number) => {
+    const id = event.dataTransfer.getData(DRAG_TYPE) as PivotDimensionId;
+    event.preventDefault();
+    event.stopPropagation();
+    setOver(false);
+    if (id) onDrop(id, index);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium uppercase text-muted-foreground">{label}</div>
+      <div
+        className={cn(
+          "flex min-h-10 flex-wrap items-center gap-2 rounded-md border border-dashed p-2",
+          over && "border-primary bg-primary/5"
+        )}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setOver(true);
+        }}
+        onDragLeave={() => setOver(false)}
+        onDrop={(event) => drop(event, dimensions.length)}
+      >
+        {dimensions.map((id, index) => (
+          <DimensionChip key={id} id={id} onDrop={(event) => drop(event, index)}>
+            <button
+              type="button"
+              aria-label={`Remove ${pivotDimensionLabel(id)}`}
+              className="rounded hover:bg-muted"
+              onClick={() => onRemove(id)}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </DimensionChip>
+        ))}
+        {available.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground">
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {available.map((id) => (
+                <DropdownMenuItem key={id} onSelect={() => onDrop(id, dimensions.length)}>
+                  {pivotDimensionLabel(id)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const PivotBuilder = ({ rows, context, query }: PivotBuilderProps) => {
+  const [config, setConfig] = React.useState<PivotConfig>(DEFAULT_PIVOT_CONFIG);
+  const pivot = React.useMemo(() => buildPivot(rows, config, context), [rows, config, context]);
+
+  const measures = selectedMeasures(config);
+  const hasColumns = config.columns.length > 0;
+  const columnHeaders = pivot.columnHeaders.slice(0, MAX_COLUMNS);
+  const rowHeaders = pivot.rowHeaders.slice(0, MAX_ROWS);
+
+  // Date buckets only exist when the query was broken down over time
+  const dimensions = PIVOT_DIMENSIONS.filter((dimension) => dimension.id !== "period" || context.granularity);
+  const unused = dimensions
+    .map((dimension) => dimension.id)
+    .filter((id) => !config.rows.includes(id) && !config.columns.includes(id));
+
+  // A dimension lives on one axis at a time; dropping it elsewhere moves it
+  const place = (axis: Axis, id: PivotDimensionId, index: number) =>
+    setConfig((current) => {
+      const without = {
+        rows: current.rows.filter((existing) => existing !== id),
+        columns: current.columns.filter((existing) => existing !== id),
+      };
+      const target = [...without[axis]];
+      target.splice(Math.min(index, target.length), 0, id);
+      return { ...current, ...without, [axis]: target };
+    });
+
+  const remove = (id: PivotDimensionId) =>
+    setConfig((current) => ({
+      ...current,
+      rows: current.rows.filter((existing) => existing !== id),
+      columns: current.columns.filter((existing) => existing !== id),
+    }));
+
+  const renderValue = (totals: PivotTotals | undefined) =>
+    measures.map((measure) => {
+      const value = totals ? measure.value(totals) : null;
+      return (
+        <TableCell key={measure.id} className="text-right tabular-nums">
+          {value === null ? (
+            <span className="text-muted-foreground">–</span>
+          ) : measure.format === "currency" ? (
+            formatCurrency(value)
+          ) : (
+            value.toLocaleString()
+          )}
+        </TableCell>
+      );
+    });
+
+  const downloadPivot = () => {
+    const { headers, rows: csvRows } = pivotExport(pivot, config);
+    const csv = toCsv(headers, csvRows);
+    const filename = `pivot-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`;
+    const mimeType = "text/csv;charset=utf-8;";
+    downloadFile(csv, filename, mimeType);
+    recordHistory({
+      kind: "export",
+      destination: "Pivot CSV",
+      query,
+      rowCount: csvRows.length,
+      totals: historyTotals(rows),
+      status: "success",
+      payload: { content: new Blob([csv], { type: mimeType }), filename, mimeType },
+    });
+    toast({
+      title: "Pivot Downloaded",
+      description: `${pivot.rowHeaders.length} rows × ${pivot.columnHeaders.length} column group(s)`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <div className="text-xs font-medium uppercase text-muted-foreground">Dimensions</div>
+        <div
+          className="flex min-h-10 flex-wrap items-center gap-2"
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            const id = event.dataTransfer.getData(DRAG_TYPE) as PivotDimensionId;
+            if (id) remove(id);
+          }}
+        >
+          {unused.map((id) => (
+            <DimensionChip key={id} id={id} />
+          ))}
+          {unused.length === 0 && (
+            <span className="text-sm text-muted-foreground">Drag a dimension here to remove it</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <DimensionZone
+          label="Rows"
+          dimensions={config.rows}
+          available={unused}
+          onDrop={(id, index) => place("rows", id, index)}
+          onRemove={remove}
+        />
+        <DimensionZone
+          label="Columns"
+          dimensions={config.columns}
+          available={unused}
+          onDrop={(id, index) => place("columns", id, index)}
+          onRemove={remove}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={config.measures}
+          onValueChange={(value) =>
+            value.length > 0 && setConfig((current) => ({ ...current, measures: value as PivotMeasureId[] }))
+          }
+        >
+          {PIVOT_MEASURES.map((measure) => (
+            <ToggleGroupItem key={measure.id} value={measure.id}>
+              {measure.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button type="button" variant="outline" size="sm" onClick={downloadPivot} disabled={rows.length === 0}>
+          <Download className="mr-2 h-4 w-4" /> Download Pivot CSV
+        </Button>
+      </div>
+
+      {(pivot.columnHeaders.length > MAX_COLUMNS || pivot.rowHeaders.length > MAX_ROWS) && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {rowHeaders.length.toLocaleString()} of {pivot.rowHeaders.length.toLocaleString()} rows
+          and {columnHeaders.length} of {pivot.columnHeaders.length} column groups. The download includes all of them.
+        </p>
+      )}
+
+      <div className="max-h-[70vh] overflow-auto rounded-md border">
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
+            <TableRow>
+              {config.rows.map((id) => (
+                <TableHead key={id} rowSpan={hasColumns ? 2 : 1} className="align-bottom">
+                  {pivotDimensionLabel(id)}
+                </TableHead>
+              ))}
+              {hasColumns
+                ? [
+                    ...columnHeaders.map((column) => (
+                      <TableHead key={column.key} colSpan={measures.length} className="border-l text-center">
+                        {column.labels.join(" / ")}
+                      </TableHead>
+                    )),
+                    <TableHead key="total" colSpan={measures.length} className="border-l text-center">
+                      Total
+                    </TableHead>,
+                  ]
+                : measures.map((measure) => (
+                    <TableHead key={measure.id} className="text-right">
+                      {measure.label}
+                    </TableHead>
+                  ))}
+            </TableRow>
+            {hasColumns && (
+              <TableRow>
+                {[...columnHeaders.map((column) => column.key), "total"].flatMap((key) =>
+                  measures.map((measure, index) => (
+                    <TableHead key={`${key}-${measure.id}`} className={cn("text-right", index === 0 && "border-l")}>
+                      {measure.label}
+                    </TableHead>
+                  ))
+                )}
+              </TableRow>
+            )}
+          </TableHeader>
+          <TableBody>
+            {rowHeaders.map((row, rowIndex) => {
+              const previous = rowHeaders[rowIndex - 1];
+              return (
+                <TableRow key={row.key}>
+                  {row.labels.map((label, level) => {
+                    // Repeated outer members are blanked, like a spreadsheet pivot's compact layout
+                    const repeated =
+                      previous && row.labels.slice(0, level + 1).every((value, i) => previous.labels[i] === value);
+                    return (
+                      <TableCell key={level} className={cn(level === 0 && "font-medium")}>
+                        {repeated ? "" : label}
+                      </TableCell>
+                    );
+                  })}
+                  {hasColumns
+                    ? [
+                        ...columnHeaders.map((column) => (
+                          <React.Fragment key={column.key}>
+                            {renderValue(pivot.cells.get(cellKey(row.key, column.key)))}
+                          </React.Fragment>
+                        )),
+                        <React.Fragment key="total">{renderValue(pivot.rowTotals.get(row.key))}</React.Fragment>,
+                      ]
+                    : renderValue(pivot.cells.get(cellKey(row.key, "")))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+          {config.rows.length > 0 && rowHeaders.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={config.rows.length}>Total</TableCell>
+                {columnHeaders.map((column) => (
+                  <React.Fragment key={column.key}>{renderValue(pivot.columnTotals.get(column.key))}</React.Fragment>
+                ))}
+                {hasColumns && renderValue(pivot.grandTotal)}
+              </TableRow>
+            </TableFooter>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import * as React from "react";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/hooks/use-toast";
+import {
+  guessIdentifierColumn,
+  guessImportMode,
+  IMPORT_MODES,
+  previewColumn,
+  readSpreadsheet,
+  SPREADSHEET_ACCEPT,
+  type ImportMode,
+  type SpreadsheetData,
+} from "@/lib/spreadsheetImport";
+
+const PREVIEW_LIMIT = 10;
+
+interface ProductFileImportProps {
+  /** Called with the recognized identifiers from the chosen column. */
+  onImport: (values: string[]) => void;
+  disabled?: boolean;
+}
+
+export const ProductFileImport = ({ onImport, disabled }: ProductFileImportProps) => {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = React.useState(false);
+  const [reading, setReading] = React.useState(false);
+  const [data, setData] = React.useState<SpreadsheetData | null>(null);
+  const [column, setColumn] = React.useState(0);
+  const [mode, setMode] = React.useState<ImportMode>("auto");
+
+  const preview = React.useMemo(() => (data ? previewColumn(data, column, mode) : null), [data, column, mode]);
+
+  const selectColumn = (sheet: SpreadsheetData, index: number) => {
+    setColumn(index);
+    setMode(guessImportMode(sheet.headers[index]));
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (sheet.rows.length === 0) {
+        throw new Error(`${file.name} has no rows below the header`);
+      }
+      selectColumn(sheet, guessIdentifierColumn(sheet));
+      setData(sheet);
+    } catch (error) {
+      console.error("Could not read spreadsheet:", error);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const onDrop = (event: React.DragEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (!disabled) openFile(event.dataTransfer.files[0]);
+  };
+
+  const confirmImport = () => {
+    if (!preview || preview.values.length === 0) return;
+    onImport(preview.values);
+    toast({
+      title: "Products imported",
+      description: `Added ${preview.values.length} product(s) from ${data.fileName}.`,
+    });
+    setData(null);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        disabled={disabled || reading}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+        className={cn(
+          "inline-flex h-9 items-center rounded-md border border-dashed px-3 text-sm text-muted-foreground transition-colors hover:border-primary hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50",
+          dragging && "border-primary bg-primary/5 text-foreground"
+        )}
+      >
+        {reading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+        )}
+        Drop CSV/XLSX or browse
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={SPREADSHEET_ACCEPT}
+        className="hidden"
+        onChange={(event) => openFile(event.target.files?.[0])}
+      />
+
+      <Dialog open={data !== null} onOpenChange={(open) => !open && setData(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import products</DialogTitle>
+            <DialogDescription>
+              {data?.fileName} · {data?.rows.length} row(s). Choose the column that holds product IDs, URLs, handles or SKUs.
+            </DialogDescription>
+          </DialogHeader>
+
+          {data && preview && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Column</Label>
+                <Select value={String(column)} onValueChange={(value) => selectColumn(data, Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {data.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Values are</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  className="justify-start"
+                  value={mode}
+                  onValueChange={(value) => value && setMode(value as ImportMode)}
+                >
+                  {IMPORT_MODES.map(({ value, label }) => (
+                    <ToggleGroupItem key={value} value={value}>
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                {mode === "auto" && (
+                  <p className="text-xs text-muted-foreground">
+                    Choose SKUs if the column holds SKUs that look like numbers or handles.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{preview.values.length} recognized</Badge>
+                {preview.duplicates > 0 && <Badge variant="outline">{preview.duplicates} duplicate(s)</Badge>}
+                {preview.invalid.length > 0 && (
+                  <Badge variant="destructive">{preview.invalid.length} unrecognized</Badge>
+                )}
+              </div>
+
+              {preview.values.length > 0 && (
+                <div className="rounded-md border bg-muted/30 p-3 font-mono text-xs space-y-1">
+                  {preview.values.slice(0, PREVIEW_LIMIT).map((value) => (
+                    <div key={value} className="truncate">{value}</div>
+                  ))}
+                  {preview.values.length > PREVIEW_LIMIT && (
+                    <div className="text-muted-foreground">…and {preview.values.length - PREVIEW_LIMIT} more</div>
+                  )}
+                </div>
+              )}
+
+              {preview.invalid.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Skipped: <span className="font-mono break-all">{preview.invalid.slice(0, PREVIEW_LIMIT).join(", ")}</span>
+                  {preview.invalid.length > PREVIEW_LIMIT && ` and ${preview.invalid.length - PREVIEW_LIMIT} more`}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setData(null)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={confirmImport} disabled={!preview || preview.values.length === 0}>
+              Add {preview?.values.length ?? 0} product(s)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
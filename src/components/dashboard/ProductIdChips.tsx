@@ -0,0 +1,76 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  describeIdentifier,
+  identifierKey,
+  type ParsedProductInput,
+  type ProductIdentifier,
+} from "@/lib/productIdentifiers";
+
+/** Rendering thousands of chips makes the form sluggish; the count still covers everything. */
+const MAX_CHIPS = 60;
+
+const KIND_LABELS: Record<ProductIdentifier["kind"], string> = {
+  id: "ID",
+  handle: "Handle",
+  sku: "SKU",
+};
+
+interface ProductIdChipsProps {
+  parsed: ParsedProductInput;
+  /** Titles of products picked from search, keyed by numeric ID. */
+  titles?: Record<string, string>;
+}
+
+export const ProductIdChips = ({ parsed, titles = {} }: ProductIdChipsProps) => {
+  const { identifiers, invalid, duplicates } = parsed;
+  if (identifiers.length === 0 && invalid.length === 0) return null;
+
+  const lookups = identifiers.filter((identifier) => identifier.kind !== "id").length;
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {identifiers.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          <Badge variant="outline">{identifiers.length} products to process</Badge>
+          {identifiers.slice(0, MAX_CHIPS).map((identifier) => (
+            <Badge
+              key={identifierKey(identifier)}
+              variant="secondary"
+              className="font-mono font-normal"
+              title={identifier.token}
+            >
+              {identifier.kind === "id" && titles[identifier.id] ? (
+                <span className="font-sans">{titles[identifier.id]}</span>
+              ) : (
+                <>
+                  {identifier.kind !== "id" && (
+                    <span className="mr-1 font-sans text-muted-foreground">{KIND_LABELS[identifier.kind]}</span>
+                  )}
+                  {identifier.kind === "sku" ? identifier.sku : describeIdentifier(identifier)}
+                </>
+              )}
+            </Badge>
+          ))}
+          {identifiers.length > MAX_CHIPS && (
+            <Badge variant="outline" className="font-normal">
+              +{identifiers.length - MAX_CHIPS} more
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {(duplicates > 0 || lookups > 0) && (
+        <p className="text-muted-foreground">
+          {duplicates > 0 && `${duplicates} duplicate(s) ignored. `}
+          {lookups > 0 && `${lookups} handle(s)/SKU(s) will be looked up before the query runs.`}
+        </p>
+      )}
+
+      {invalid.length > 0 && (
+        <p className="text-destructive">
+          Not recognized: <span className="font-mono break-all">{invalid.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+};
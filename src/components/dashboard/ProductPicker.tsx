@@ -0,0 +1,100 @@
+import * as React from "react";
+import { Check, Loader2, PackageSearch } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { ProductSearchResult } from "@/lib/api";
+import { productIdOf } from "@/lib/productIdentifiers";
+import { useProductSearch } from "@/hooks/use-product-search";
+
+interface ProductPickerProps {
+  /** Numeric IDs of the products currently in the query. */
+  selectedIds: Set<string>;
+  onToggle: (product: ProductSearchResult, selected: boolean) => void;
+  disabled?: boolean;
+}
+
+export const ProductPicker = ({ selectedIds, onToggle, disabled }: ProductPickerProps) => {
+  const [open, setOpen] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+  const { data: products = [], isFetching, isError, error } = useProductSearch(search);
+
+  const tooShort = search.trim().length < 2;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled}>
+          <PackageSearch className="h-4 w-4 mr-2" />
+          Search products
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] p-0" align="start">
+        {/* Results are already filtered by the backend */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Search by title, SKU, vendor or tag..."
+          />
+          <CommandList>
+            {isFetching && (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            )}
+            {!isFetching && isError && (
+              <div className="px-3 py-6 text-center text-sm text-destructive">
+                {error instanceof Error ? error.message : "Search failed"}
+              </div>
+            )}
+            {!isFetching && !isError && (
+              <CommandEmpty>{tooShort ? "Type at least 2 characters." : "No products found."}</CommandEmpty>
+            )}
+            {!isFetching && !isError && !tooShort && products.length > 0 && (
+              <CommandGroup heading={`${products.length} result(s)`}>
+                {products.map((product) => {
+                  const selected = selectedIds.has(productIdOf(product.id));
+                  return (
+                    <CommandItem
+                      key={product.id}
+                      value={product.id}
+                      onSelect={() => onToggle(product, !selected)}
+                      className="gap-2"
+                    >
+                      <Check className={cn("h-4 w-4 shrink-0", selected ? "opacity-100" : "opacity-0")} />
+                      {product.imageUrl ? (
+                        <img src={product.imageUrl} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+                      ) : (
+                        <div className="h-8 w-8 shrink-0 rounded bg-muted" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="truncate font-medium">{product.title}</div>
+                        <div className="truncate text-xs text-muted-foreground">
+                          {[product.vendor, product.productType, productIdOf(product.id)].filter(Boolean).join(" · ")}
+                        </div>
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,181 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { format } from "date-fns";
+import { FileText, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import type { ProductSalesRow } from "@/lib/api";
+import { chartImage } from "@/lib/chartExport";
+import { downloadFile } from "@/lib/csv";
+import type { SortState } from "@/lib/dataGrid";
+import type { ExportSummaryItem } from "@/lib/exportEngine";
+import { historyTotals, recordHistory, type HistoryQuery } from "@/lib/exportHistory";
+import type { ResultColumn, ResultRow } from "@/lib/resultColumns";
+import { rankSales, type RankedItem } from "@/lib/salesCharts";
+import { buildReportPdf, reportTable, type ReportChart, type SalesReport } from "@/lib/salesReport";
+import type { SalesSummary } from "@/lib/salesSummary";
+import { bucketStarts, buildTimeSeries, type Breakdown, type TimeSeries } from "@/lib/timeSeries";
+import { SalesReportLayout } from "./SalesReportLayout";
+
+interface ReportActionsProps {
+  /** Rows as the table shows them: filtered and sorted. */
+  rows: ResultRow[];
+  /** Visible columns, in table order. */
+  columns: ResultColumn[];
+  grouped: boolean;
+  sort: SortState | null;
+  summary: SalesSummary;
+  previous: SalesSummary | null;
+  /** Query details for the report header, e.g. the date range. */
+  details: ExportSummaryItem[];
+  /** Per-period rows for the trend chart, when the result has a time breakdown. */
+  trend: { rows: ProductSalesRow[]; startDate: string; endDate: string; breakdown: Breakdown } | null;
+  /** Logged with each PDF so it can be re-run from the history page. */
+  query: HistoryQuery | null;
+  disabled?: boolean;
+}
+
+type ReportMode = "print" | "pdf";
+
+/** What the layout renders, captured on click so new props can't change a report mid-run. */
+interface ReportRun {
+  mode: ReportMode;
+  report: SalesReport;
+  topProducts: RankedItem[];
+  trend: TimeSeries | null;
+}
+
+const TOP_PRODUCTS = 10;
+
+/** Body class that hides the dashboard so only the report prints. */
+const PRINTING_CLASS = "printing-report";
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+/**
+ * "Print report" and "Download PDF". The report layout is only mounted while
+ * one of them runs: hidden on screen for printing, off-screen for the PDF so
+ * its charts lay out at full size before being rasterized.
+ */
+export const ReportActions = ({
+  rows,
+  columns,
+  grouped,
+  sort,
+  summary,
+  previous,
+  details,
+  trend,
+  query,
+  disabled,
+}: ReportActionsProps) => {
+  const [run, setRun] = React.useState<ReportRun | null>(null);
+  const layoutRef = React.useRef<HTMLDivElement>(null);
+  const mode = run?.mode ?? null;
+
+  const startRun = (runMode: ReportMode): ReportRun => {
+    let trendSeries: ReportRun["trend"] = null;
+    if (trend) {
+      const { granularity, fiscalCalendar } = trend.breakdown;
+      const buckets = bucketStarts(trend.startDate, trend.endDate, granularity, fiscalCalendar);
+      trendSeries = buildTimeSeries(trend.rows, buckets, granularity, "netSales", { fiscalCalendar });
+    }
+    const next: ReportRun = {
+      mode: runMode,
+      report: {
+        title: "Sales report",
+        generatedAt: new Date(),
+        details,
+        summary,
+        previous,
+        table: reportTable(rows, columns, { grouped, sort }),
+      },
+      topProducts: rankSales(rows, "product", "netSales").slice(0, TOP_PRODUCTS),
+      trend: trendSeries,
+    };
+    setRun(next);
+    return next;
+  };
+
+  React.useEffect(() => {
+    if (mode !== "print") return;
+    const finish = () => setRun(null);
+    document.body.classList.add(PRINTING_CLASS);
+    window.addEventListener("afterprint", finish);
+    nextFrame().then(() => window.print());
+    return () => {
+      document.body.classList.remove(PRINTING_CLASS);
+      window.removeEventListener("afterprint", finish);
+    };
+  }, [mode]);
+
+  const downloadPdf = async () => {
+    const { report } = startRun("pdf");
+    const history = {
+      kind: "export" as const,
+      destination: "PDF report",
+      query,
+      rowCount: rows.length,
+      totals: historyTotals(rows),
+    };
+
+    try {
+      // Let the off-screen layout mount and its charts draw before rasterizing them
+      await nextFrame();
+      await nextFrame();
+      const containers = Array.from(layoutRef.current?.querySelectorAll<HTMLElement>("[data-report-chart]") ?? []);
+      const charts: ReportChart[] = await Promise.all(
+        containers.map(async (container) => ({
+          title: container.dataset.reportChart ?? "",
+          ...(await chartImage(container)),
+        }))
+      );
+      const blob = await buildReportPdf(report, charts);
+      const filename = `sales-report-${format(report.generatedAt, "yyyy-MM-dd-HHmm")}.pdf`;
+      downloadFile(blob, filename, "application/pdf");
+      recordHistory({
+        ...history,
+        status: "success",
+        payload: { content: blob, filename, mimeType: "application/pdf" },
+      });
+      toast({ title: "Report downloaded", description: `Saved as ${filename}` });
+    } catch (error) {
+      console.error("Report generation failed:", error);
+      recordHistory({
+        ...history,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        payload: null,
+      });
+      toast({
+        title: "Report failed",
+        description: error instanceof Error ? error.message : "Could not create the PDF report.",
+        variant: "destructive",
+      });
+    } finally {
+      setRun(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => startRun("print")} disabled={disabled || mode !== null}>
+        <Printer className="mr-2 h-4 w-4" /> Print
+      </Button>
+      <Button variant="outline" onClick={downloadPdf} disabled={disabled || mode !== null}>
+        {mode === "pdf" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+        Download PDF
+      </Button>
+      {run &&
+        createPortal(
+          <div
+            className={mode === "print" ? "sales-report-root hidden print:block" : "fixed left-[-10000px] top-0"}
+            aria-hidden
+          >
+            <SalesReportLayout ref={layoutRef} report={run.report} topProducts={run.topProducts} trend={run.trend} />
+          </div>,
+          document.body
+        )}
+    </>
+  );
+};
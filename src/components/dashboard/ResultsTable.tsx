@@ -0,0 +1,331 @@
+import * as React from "react";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  Search,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  applyView,
+  DEFAULT_GRID_STATE,
+  isFilterActive,
+  PAGE_SIZE_OPTIONS,
+  pageOf,
+  toggleSort,
+  visibleColumns,
+  type ColumnFilter,
+  type GridState,
+} from "@/lib/dataGrid";
+import { groupByProduct, subtotalRow, type ProductGroup } from "@/lib/productGroups";
+import type { ResultColumn, ResultRow } from "@/lib/resultColumns";
+import { formatCurrency } from "@/lib/salesSummary";
+import { DeltaValue } from "./DeltaValue";
+import { ColumnFilterButton, ColumnSettings, GridPagination } from "./DataGridControls";
+
+interface ResultsTableProps {
+  rows: ResultRow[];
+  columns: ResultColumn[];
+  state: GridState;
+  onStateChange: (state: GridState) => void;
+}
+
+const formatCount = (value: number) => value.toLocaleString();
+
+/** Starting estimate only; rows are measured as they render. */
+const ROW_HEIGHT = 49;
+
+const CELLS: Record<string, (row: ResultRow) => React.ReactNode> = {
+  productTitle: (row) => <span className="font-medium">{row.productTitle}</span>,
+  variantTitle: (row) => row.variantTitle,
+  sku: (row) => <span className="font-mono text-sm">{row.sku || "N/A"}</span>,
+  netItemsSold: (row) => <span className="font-medium">{row.netItemsSold.toLocaleString()}</span>,
+  netSales: (row) => <span className="font-medium">${row.netSales.toFixed(2)}</span>,
+  previousNetItemsSold: (row) =>
+    row.comparison && (
+      <span className="text-muted-foreground">{formatCount(row.comparison.netItemsSold.previous)}</span>
+    ),
+  netItemsSoldChange: (row) =>
+    row.comparison && <DeltaValue delta={row.comparison.netItemsSold} format={formatCount} />,
+  previousNetSales: (row) =>
+    row.comparison && (
+      <span className="text-muted-foreground">{formatCurrency(row.comparison.netSales.previous)}</span>
+    ),
+  netSalesChange: (row) =>
+    row.comparison && <DeltaValue delta={row.comparison.netSales} format={formatCurrency} />,
+};
+
+const renderCell = (column: ResultColumn, row: ResultRow) => CELLS[column.id]?.(row) ?? column.value(row);
+
+interface ProductGroupRowsProps {
+  group: ProductGroup;
+  columns: ResultColumn[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  index: number;
+  measureRef: (element: Element | null) => void;
+}
+
+/** A product's subtotal row and, when open, its variants; one `<tbody>` each so it measures as a unit. */
+const ProductGroupRows = ({ group, columns, open, onOpenChange, index, measureRef }: ProductGroupRowsProps) => {
+  const subtotal = subtotalRow(group);
+
+  return (
+    <Collapsible asChild open={open} onOpenChange={onOpenChange}>
+      <tbody ref={measureRef} data-index={index} className="border-b last:border-0">
+        <TableRow className="bg-muted/40 font-semibold hover:bg-muted/60">
+          {columns.map((column, columnIndex) => (
+            <TableCell key={column.id} className={cn(column.align === "right" && "text-right")}>
+              {columnIndex === 0 ? (
+                <CollapsibleTrigger asChild>
+                  <button type="button" className="inline-flex items-center gap-1 text-left">
+                    <ChevronRight className={cn("h-4 w-4 shrink-0 transition-transform", open && "rotate-90")} />
+                    {renderCell(column, subtotal)}
+                  </button>
+                </CollapsibleTrigger>
+              ) : column.id === "sku" ? null : (
+                renderCell(column, subtotal)
+              )}
+            </TableCell>
+          ))}
+        </TableRow>
+        {open &&
+          group.rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {columns.map((column, columnIndex) => (
+                <TableCell
+                  key={column.id}
+                  className={cn(column.align === "right" && "text-right", columnIndex === 0 && "pl-10")}
+                >
+                  {renderCell(column, row)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+      </tbody>
+    </Collapsible>
+  );
+};
+
+export const ResultsTable = ({ rows, columns, state, onStateChange }: ResultsTableProps) => {
+  const { filters, search, sort, groupByProduct: grouped } = state;
+  const view = React.useMemo(
+    () => applyView(rows, columns, { ...DEFAULT_GRID_STATE, filters, search, sort }),
+    [rows, columns, filters, search, sort]
+  );
+  // Grouped, pages and virtual items are whole products rather than variant rows
+  const groups = React.useMemo(() => (grouped ? groupByProduct(view, sort) : null), [grouped, view, sort]);
+  const [expanded, setExpanded] = React.useState<Set<string>>(() => new Set());
+  const items: (ResultRow | ProductGroup)[] = groups ?? view;
+  const { rows: pageItems, page, pageCount } = pageOf(items, state);
+  const shown = visibleColumns(columns, state);
+  const filtered = state.search.trim() !== "" || Object.values(state.filters).some(isFilterActive);
+
+  // Only the rows in and near the viewport are rendered, so "All" stays smooth at 50k+ rows
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: pageItems.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => {
+      const item = pageItems[index];
+      return groups && expanded.has((item as ProductGroup).key)
+        ? ROW_HEIGHT * (1 + (item as ProductGroup).rows.length)
+        : ROW_HEIGHT;
+    },
+    overscan: 12,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+  const paddingTop = virtualItems.length > 0 ? virtualItems[0].start : 0;
+  const paddingBottom =
+    virtualItems.length > 0 ? virtualizer.getTotalSize() - virtualItems[virtualItems.length - 1].end : 0;
+
+  // Back to the top when the view changes, but not when streamed rows are appended
+  React.useEffect(() => {
+    virtualizer.scrollToOffset(0);
+  }, [virtualizer, page, state.pageSize, filters, search, sort, grouped]);
+
+  // Any change to what's matched starts over from the first page
+  const setFilter = (columnId: string, filter: ColumnFilter | undefined) => {
+    const filters = { ...state.filters };
+    if (filter) filters[columnId] = filter;
+    else delete filters[columnId];
+    onStateChange({ ...state, filters, page: 0 });
+  };
+
+  const clearFilters = () => onStateChange({ ...state, filters: {}, search: "", page: 0 });
+
+  const setGroupOpen = (key: string, open: boolean) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (open) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const allExpanded = !!groups && groups.length > 0 && groups.every((group) => expanded.has(group.key));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={state.search}
+            onChange={(event) => onStateChange({ ...state, search: event.target.value, page: 0 })}
+            placeholder="Search products, variants, SKUs..."
+            className="pl-8"
+          />
+        </div>
+        {filtered && (
+          <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-3 text-sm text-muted-foreground">
+          {filtered && `${view.length.toLocaleString()} of ${rows.length.toLocaleString()} rows`}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={grouped ? "product" : "variant"}
+            onValueChange={(value) => value && onStateChange({ ...state, groupByProduct: value === "product", page: 0 })}
+          >
+            <ToggleGroupItem value="variant">Variants</ToggleGroupItem>
+            <ToggleGroupItem value="product">By product</ToggleGroupItem>
+          </ToggleGroup>
+          {groups && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setExpanded(allExpanded ? new Set() : new Set(groups.map((group) => group.key)))}
+            >
+              {allExpanded ? <ChevronsDownUp className="h-4 w-4 mr-2" /> : <ChevronsUpDown className="h-4 w-4 mr-2" />}
+              {allExpanded ? "Collapse all" : "Expand all"}
+            </Button>
+          )}
+          <ColumnSettings columns={columns} state={state} onStateChange={onStateChange} />
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="relative max-h-[70vh] overflow-auto rounded-md border">
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
+            <TableRow>
+              {shown.map((column) => {
+                const sorted = state.sort?.columnId === column.id ? state.sort.direction : null;
+                const SortIcon = sorted === "asc" ? ArrowUp : sorted === "desc" ? ArrowDown : ArrowUpDown;
+                return (
+                  <TableHead key={column.id} className={cn(column.align === "right" && "text-right")}>
+                    <div className={cn("flex items-center gap-1", column.align === "right" && "justify-end")}>
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                        onClick={() => onStateChange({ ...state, sort: toggleSort(state.sort, column.id) })}
+                      >
+                        {column.label}
+                        <SortIcon className={cn("h-3 w-3", !sorted && "opacity-40")} />
+                      </button>
+                      <ColumnFilterButton
+                        column={column}
+                        filter={state.filters[column.id]}
+                        onChange={(filter) => setFilter(column.id, filter)}
+                      />
+                    </div>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          {pageItems.length === 0 ? (
+            <TableBody>
+              <TableRow>
+                <TableCell colSpan={shown.length} className="text-center py-8">
+                  <AlertCircle className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+                  <p className="text-muted-foreground">
+                    {rows.length === 0
+                      ? "No data found for the selected products and date range."
+                      : "No rows match the current filters."}
+                  </p>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          ) : groups ? (
+            <>
+              {paddingTop > 0 && (
+                <tbody>
+                  <tr style={{ height: paddingTop }} />
+                </tbody>
+              )}
+              {virtualItems.map((virtualItem) => {
+                const group = pageItems[virtualItem.index] as ProductGroup;
+                return (
+                  <ProductGroupRows
+                    key={group.key}
+                    group={group}
+                    columns={shown}
+                    open={expanded.has(group.key)}
+                    onOpenChange={(open) => setGroupOpen(group.key, open)}
+                    index={virtualItem.index}
+                    measureRef={virtualizer.measureElement}
+                  />
+                );
+              })}
+              {paddingBottom > 0 && (
+                <tbody>
+                  <tr style={{ height: paddingBottom }} />
+                </tbody>
+              )}
+            </>
+          ) : (
+            <TableBody>
+              {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+              {virtualItems.map((virtualItem) => {
+                const row = pageItems[virtualItem.index] as ResultRow;
+                return (
+                  <TableRow key={virtualItem.key} data-index={virtualItem.index} ref={virtualizer.measureElement}>
+                    {shown.map((column) => (
+                      <TableCell key={column.id} className={cn(column.align === "right" && "text-right")}>
+                        {renderCell(column, row)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+              {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+            </TableBody>
+          )}
+        </table>
+      </div>
+
+      {items.length > PAGE_SIZE_OPTIONS[0] && (
+        <GridPagination
+          page={page}
+          pageCount={pageCount}
+          pageSize={state.pageSize}
+          total={items.length}
+          onPageChange={(next) => onStateChange({ ...state, page: next })}
+          onPageSizeChange={(pageSize) => onStateChange({ ...state, pageSize, page: 0 })}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, XAxis, YAxis } from "recharts";
+import { cn } from "@/lib/utils";
+import type { RankedItem } from "@/lib/salesCharts";
+import type { SalesReport } from "@/lib/salesReport";
+import { formatCurrency } from "@/lib/salesSummary";
+import type { TimeSeries } from "@/lib/timeSeries";
+import { CHART_COLORS, OTHER_COLOR } from "./chartColors";
+import { SummaryCards } from "./SummaryCards";
+
+interface SalesReportLayoutProps {
+  report: SalesReport;
+  topProducts: RankedItem[];
+  /** Net sales over time; only when the result has a time breakdown. */
+  trend: TimeSeries | null;
+}
+
+/** Fits the printable width of an A4 page; charts have fixed sizes so they render off-screen too. */
+const REPORT_WIDTH = 720;
+const CHART_WIDTH = REPORT_WIDTH - 32;
+
+/** Table rows per printed page, below the repeated header. */
+const ROWS_PER_PAGE = 32;
+
+const truncate = (label: string, length = 32) => (label.length > length ? `${label.slice(0, length - 1)}…` : label);
+
+/**
+ * Print-optimized report of a result. Charts are plain recharts without
+ * animation or tooltips, and each is tagged with `data-report-chart` so it can
+ * be rasterized for the PDF.
+ */
+export const SalesReportLayout = React.forwardRef<HTMLDivElement, SalesReportLayoutProps>(
+  ({ report, topProducts, trend }, ref) => {
+    const pages: (typeof report.table.rows)[] = [];
+    for (let start = 0; start < report.table.rows.length; start += ROWS_PER_PAGE) {
+      pages.push(report.table.rows.slice(start, start + ROWS_PER_PAGE));
+    }
+    const topData = topProducts.map((item) => ({ ...item, label: truncate(item.label) }));
+
+    return (
+      <div ref={ref} className="sales-report bg-white p-4 text-black" style={{ width: REPORT_WIDTH }}>
+        <header className="mb-6 border-b pb-4">
+          <h1 className="text-2xl font-bold">{report.title}</h1>
+          <p className="text-sm text-muted-foreground">Generated {format(report.generatedAt, "PPpp")}</p>
+          <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            {report.details.map((item) => (
+              <React.Fragment key={item.label}>
+                <dt className="font-medium">{item.label}</dt>
+                <dd>{item.value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </header>
+
+        <SummaryCards summary={report.summary} previous={report.previous} className="grid-cols-5 gap-2" />
+
+        <section className="mb-6 break-inside-avoid" data-report-chart="Top products by net sales">
+          <h2 className="mb-2 font-semibold">Top products by net sales</h2>
+          <BarChart
+            width={CHART_WIDTH}
+            height={Math.max(200, topData.length * 24 + 40)}
+            data={topData}
+            layout="vertical"
+            margin={{ left: 12, right: 24 }}
+          >
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value: number) => formatCurrency(value)} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={220} interval={0} />
+            <Bar dataKey="value" fill={CHART_COLORS[0]} radius={4} isAnimationActive={false} />
+          </BarChart>
+        </section>
+
+        {trend && (
+          <section className="mb-6 break-inside-avoid" data-report-chart="Net sales over time">
+            <h2 className="mb-2 font-semibold">Net sales over time</h2>
+            <AreaChart width={CHART_WIDTH} height={260} data={trend.points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(value: number) => formatCurrency(value)} />
+              <Legend />
+              {trend.series.map(({ key, label }, index) => {
+                const color = key === "other" ? OTHER_COLOR : CHART_COLORS[index % (CHART_COLORS.length - 1)];
+                return (
+                  <Area
+                    key={key}
+                    name={label}
+                    dataKey={key}
+                    type="monotone"
+                    stackId="sales"
+                    stroke={color}
+                    fill={color}
+                    fillOpacity={0.35}
+                    isAnimationActive={false}
+                  />
+                );
+              })}
+            </AreaChart>
+          </section>
+        )}
+
+        {pages.map((rows, pageIndex) => (
+          <section key={pageIndex} className="break-before-page">
+            <h2 className="mb-2 font-semibold">
+              Results{pages.length > 1 && ` (page ${pageIndex + 1} of ${pages.length})`}
+            </h2>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  {report.table.headers.map((header, index) => (
+                    <th
+                      key={header}
+                      className={cn("px-1 py-1 font-medium", report.table.numeric[index] ? "text-right" : "text-left")}
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className={cn("border-b", row.subtotal && "bg-muted/50 font-semibold")}>
+                    {row.cells.map((cell, index) => (
+                      <td
+                        key={index}
+                        className={cn("px-1 py-0.5", report.table.numeric[index] && "text-right tabular-nums")}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))}
+
+        {report.table.totalRows > report.table.rows.length && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Showing the first {report.table.rows.length.toLocaleString()} of{" "}
+            {report.table.totalRows.toLocaleString()} rows. Use Export for the full data.
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+SalesReportLayout.displayName = "SalesReportLayout";
@@ -0,0 +1,180 @@
+import * as React from "react";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/hooks/use-toast";
+import type { ProductSalesRow } from "@/lib/api";
+import type { FiscalCalendar } from "@/lib/fiscalCalendar";
+import { downloadFile, toCsv } from "@/lib/csv";
+import { historyTotals, recordHistory, type HistoryQuery } from "@/lib/exportHistory";
+import { formatCurrency } from "@/lib/salesSummary";
+import {
+  bucketLabel,
+  bucketStarts,
+  buildTimeSeries,
+  GRANULARITY_OPTIONS,
+  toWideRows,
+  type Granularity,
+  type SalesMetric,
+} from "@/lib/timeSeries";
+import { CHART_COLORS, OTHER_COLOR } from "./chartColors";
+
+interface SalesTrendChartProps {
+  rows: ProductSalesRow[];
+  startDate: string;
+  endDate: string;
+  granularity: Granularity;
+  fiscalCalendar?: FiscalCalendar | null;
+  /** Logged with each CSV download so it can be re-run from the history page. */
+  query: HistoryQuery | null;
+}
+
+const METRIC_LABELS: Record<SalesMetric, string> = {
+  netSales: "Net Sales",
+  netItemsSold: "Net Items Sold",
+};
+
+export const SalesTrendChart = ({
+  rows,
+  startDate,
+  endDate,
+  granularity,
+  fiscalCalendar,
+  query,
+}: SalesTrendChartProps) => {
+  const [metric, setMetric] = React.useState<SalesMetric>("netSales");
+
+  const buckets = React.useMemo(
+    () => bucketStarts(startDate, endDate, granularity, fiscalCalendar),
+    [startDate, endDate, granularity, fiscalCalendar]
+  );
+  const { points, series } = React.useMemo(
+    () => buildTimeSeries(rows, buckets, granularity, metric, { fiscalCalendar }),
+    [rows, buckets, granularity, metric, fiscalCalendar]
+  );
+
+  const config = React.useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        series.map(({ key, label }, index) => [
+          key,
+          { label, color: key === "other" ? OTHER_COLOR : CHART_COLORS[index % (CHART_COLORS.length - 1)] },
+        ])
+      ),
+    [series]
+  );
+
+  const formatValue = metric === "netSales" ? formatCurrency : (value: number) => value.toLocaleString();
+
+  const downloadWideCSV = () => {
+    const wideRows = toWideRows(rows, buckets, granularity, metric, fiscalCalendar);
+    const csv = toCsv(
+      [
+        "Product Title",
+        "Product Variant Title",
+        "Product Variant SKU",
+        ...buckets.map((period) =>
+          `${METRIC_LABELS[metric]} ${fiscalCalendar && granularity === "month" ? bucketLabel(period, granularity, fiscalCalendar) : period}`
+        ),
+        `${METRIC_LABELS[metric]} Total`,
+      ],
+      wideRows.map((row) => [
+        row.productTitle,
+        row.variantTitle,
+        row.sku,
+        ...row.values.map((value) => (metric === "netSales" ? value.toFixed(2) : value)),
+        metric === "netSales" ? row.total.toFixed(2) : row.total,
+      ])
+    );
+
+    const filename = `analytics-${granularity}-${metric}-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`;
+    const mimeType = "text/csv;charset=utf-8;";
+    downloadFile(csv, filename, mimeType);
+    recordHistory({
+      kind: "export",
+      destination: `${GRANULARITY_OPTIONS.find((option) => option.value === granularity)?.label ?? granularity} CSV`,
+      query,
+      rowCount: wideRows.length,
+      totals: historyTotals(rows),
+      status: "success",
+      payload: { content: new Blob([csv], { type: mimeType }), filename, mimeType },
+    });
+    toast({
+      title: "CSV Downloaded",
+      description: `Downloaded ${wideRows.length} variants across ${buckets.length} ${granularity} buckets`,
+    });
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border p-4">
+      <div className="mb-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">{METRIC_LABELS[metric]} over time</h3>
+          <p className="text-sm text-muted-foreground">
+            Top products by {METRIC_LABELS[metric].toLowerCase()}, {buckets.length}{" "}
+            {granularity === "day" ? "days" : granularity === "week" ? "weeks" : fiscalCalendar ? "fiscal periods" : "months"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={metric}
+            onValueChange={(value) => value && setMetric(value as SalesMetric)}
+          >
+            <ToggleGroupItem value="netSales">Net Sales</ToggleGroupItem>
+            <ToggleGroupItem value="netItemsSold">Items Sold</ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="outline" size="sm" onClick={downloadWideCSV}>
+            <Download className="mr-2 h-4 w-4" /> Wide CSV
+          </Button>
+        </div>
+      </div>
+
+      <ChartContainer config={config} className="aspect-auto h-72 w-full">
+        <AreaChart data={points} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={72}
+            tickFormatter={(value: number) => formatValue(value)}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) =>
+                  payload?.[0] ? bucketLabel(String(payload[0].payload.period), granularity, fiscalCalendar) : ""
+                }
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {series.map(({ key }) => (
+            <Area
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stackId="sales"
+              stroke={`var(--color-${key})`}
+              fill={`var(--color-${key})`}
+              fillOpacity={0.35}
+            />
+          ))}
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import * as React from "react";
+import { ChevronDown, Filter, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  isScopeEmpty,
+  SCOPE_FIELDS,
+  toProductScope,
+  type ScopeInput,
+} from "@/lib/productScope";
+import { useScopeExpansion } from "@/hooks/use-scope-expansion";
+
+interface ScopeFiltersProps {
+  value: ScopeInput;
+  onChange: (value: ScopeInput) => void;
+  disabled?: boolean;
+}
+
+export const ScopeFilters = ({ value, onChange, disabled }: ScopeFiltersProps) => {
+  const scope = React.useMemo(() => toProductScope(value), [value]);
+  const empty = isScopeEmpty(scope);
+  const [open, setOpen] = React.useState(!empty);
+  const { data: productIds, isFetching, isError, error } = useScopeExpansion(scope);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <div className="flex items-center justify-between gap-2 px-4 py-2">
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="-ml-2">
+            <Filter className="h-4 w-4 mr-2" />
+            Scope filters
+            <ChevronDown className={cn("h-4 w-4 ml-2 transition-transform", open && "rotate-180")} />
+          </Button>
+        </CollapsibleTrigger>
+        {!empty && (
+          <div className="text-sm">
+            {isFetching ? (
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Counting products...
+              </span>
+            ) : isError ? (
+              <span className="text-destructive">
+                {error instanceof Error ? error.message : "Could not expand scope"}
+              </span>
+            ) : productIds ? (
+              <Badge variant="outline">{productIds.length} products in scope</Badge>
+            ) : null}
+          </div>
+        )}
+      </div>
+      <CollapsibleContent className="border-t px-4 py-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {SCOPE_FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`scope-${key}`}>{label}</Label>
+              <Input
+                id={`scope-${key}`}
+                value={value[key]}
+                placeholder={placeholder}
+                disabled={disabled}
+                onChange={(event) => onChange({ ...value, [key]: event.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="mt-3 text-sm text-muted-foreground">
+          Separate values with commas. Products must match every filter you fill in, and are added to any products listed above.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
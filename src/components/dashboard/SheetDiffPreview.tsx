@@ -0,0 +1,105 @@
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import type { DiffStatus, SheetCell, SheetDiff } from "@/lib/sheetDiff";
+
+interface SheetDiffPreviewProps {
+  diff: SheetDiff;
+}
+
+/** Rows listed in the preview; the counts above still cover every row. */
+const MAX_PREVIEW_ROWS = 200;
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; row: string; badge: string }> = {
+  added: { label: "Added", row: "bg-green-50", badge: "bg-green-100 text-green-800" },
+  changed: { label: "Changed", row: "", badge: "bg-amber-100 text-amber-800" },
+  removed: { label: "Removed", row: "bg-red-50 text-muted-foreground line-through", badge: "bg-red-100 text-red-800" },
+};
+
+const display = (value: SheetCell | undefined) => (value === null || value === undefined ? "" : String(value));
+
+/** Rows a push would add, change or remove, with changed cells showing the value they replace. */
+export const SheetDiffPreview = ({ diff }: SheetDiffPreviewProps) => {
+  const shown = diff.rows.slice(0, MAX_PREVIEW_ROWS);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        {(Object.keys(STATUS_STYLES) as DiffStatus[]).map((status) => (
+          <Badge key={status} variant="outline" className={cn("font-normal", STATUS_STYLES[status].badge)}>
+            {diff.counts[status].toLocaleString()} {STATUS_STYLES[status].label.toLowerCase()}
+          </Badge>
+        ))}
+        <Badge variant="outline" className="font-normal">
+          {diff.counts.unchanged.toLocaleString()} unchanged
+        </Badge>
+      </div>
+
+      {diff.missingKeyColumn && (
+        <p className="text-sm text-destructive">
+          The tab has no "{diff.missingKeyColumn}" column to match SKUs on, so an upsert would add every row again.
+          Add that column to the sheet or map the SKU to one of its existing columns.
+        </p>
+      )}
+
+      {diff.removedColumns.length > 0 && (
+        <p className="text-sm text-destructive">
+          Columns removed from the tab: {diff.removedColumns.join(", ")}
+        </p>
+      )}
+
+      {shown.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          The sheet already matches these results; nothing would change.
+        </p>
+      ) : (
+        <div className="max-h-[50vh] overflow-auto rounded-md border">
+          <table className="w-full caption-bottom text-xs">
+            <thead className="sticky top-0 z-10 bg-background">
+              <tr className="border-b">
+                <th className="px-2 py-2 text-left font-medium">Status</th>
+                <th className="px-2 py-2 text-left font-medium">Row</th>
+                {diff.headers.map((header) => (
+                  <th key={header} className="whitespace-nowrap px-2 py-2 text-left font-medium">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((row) => (
+                <tr key={`${row.status}-${row.key}`} className={cn("border-b", STATUS_STYLES[row.status].row)}>
+                  <td className="px-2 py-1">
+                    <span className={cn("rounded px-1.5 py-0.5 no-underline", STATUS_STYLES[row.status].badge)}>
+                      {STATUS_STYLES[row.status].label}
+                    </span>
+                  </td>
+                  <td className="whitespace-nowrap px-2 py-1 font-mono">{row.key}</td>
+                  {row.cells.map((cell, index) => (
+                    <td
+                      key={index}
+                      className={cn(
+                        "whitespace-nowrap px-2 py-1",
+                        row.status === "changed" && cell.changed && "bg-amber-100"
+                      )}
+                    >
+                      {row.status === "changed" && cell.changed && (
+                        <span className="mr-1 text-muted-foreground line-through">{display(cell.previous)}</span>
+                      )}
+                      {display(cell.value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff.rows.length > shown.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {shown.length.toLocaleString()} of {diff.rows.length.toLocaleString()} affected rows.
+        </p>
+      )}
+    </div>
+  );
+};
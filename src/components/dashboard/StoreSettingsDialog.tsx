@@ -0,0 +1,251 @@
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { useStoreSettings } from "@/hooks/use-store-settings";
+import { FISCAL_PATTERNS } from "@/lib/fiscalCalendar";
+import { saveStoreSettings } from "@/lib/storeSettings";
+import { isValidTimeZone, listTimeZones } from "@/lib/timeZone";
+
+const MONTHS = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleString(undefined, { month: "long" })
+);
+const WEEKDAYS = Array.from({ length: 7 }, (_, i) =>
+  new Date(2000, 0, 2 + i).toLocaleString(undefined, { weekday: "long" })
+);
+
+const SettingsFormSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  fiscalEnabled: z.boolean(),
+  startMonth: z.coerce.number().int().min(1).max(12),
+  pattern: z.enum(["months", "4-4-5", "4-5-4", "5-4-4"]),
+  weekStartsOn: z.coerce.number().int().min(0).max(6),
+});
+
+export const StoreSettingsDialog = () => {
+  const settings = useStoreSettings();
+  const [open, setOpen] = React.useState(false);
+  const timeZones = React.useMemo(() => listTimeZones(), []);
+
+  const form = useForm<z.infer<typeof SettingsFormSchema>>({
+    resolver: zodResolver(SettingsFormSchema),
+  });
+
+  // Load the saved settings each time the dialog opens so cancelled edits are dropped
+  React.useEffect(() => {
+    if (!open) return;
+    form.reset({
+      timeZone: settings.timeZone,
+      fiscalEnabled: settings.fiscalCalendar !== null,
+      startMonth: settings.fiscalCalendar?.startMonth ?? 1,
+      pattern: settings.fiscalCalendar?.pattern ?? "months",
+      weekStartsOn: settings.fiscalCalendar?.weekStartsOn ?? 1,
+    });
+  }, [open, settings, form]);
+
+  const fiscalEnabled = form.watch("fiscalEnabled");
+  const pattern = form.watch("pattern");
+
+  function onSubmit(data: z.infer<typeof SettingsFormSchema>) {
+    saveStoreSettings({
+      timeZone: data.timeZone,
+      fiscalCalendar: data.fiscalEnabled
+        ? {
+            startMonth: data.startMonth,
+            pattern: data.pattern,
+            weekStartsOn: data.weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6,
+          }
+        : null,
+    });
+    setOpen(false);
+    toast({
+      title: "Store Settings Saved",
+      description: `Date ranges now resolve in ${data.timeZone}${data.fiscalEnabled ? " using your fiscal calendar" : ""}.`,
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings className="mr-2 h-4 w-4" /> {settings.timeZone}
+          {settings.fiscalCalendar && " · Fiscal"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Store Settings</DialogTitle>
+          <DialogDescription>
+            Ranges are resolved in the store's time zone so totals line up with Shopify Analytics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="timeZone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Store Time Zone</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a time zone" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="max-h-72">
+                      {timeZones.map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="fiscalEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Fiscal Calendar</FormLabel>
+                    <FormDescription>
+                      Month, quarter and year presets and monthly buckets follow fiscal periods.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {fiscalEnabled && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Year Starts In</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {MONTHS.map((month, i) => (
+                            <SelectItem key={month} value={String(i + 1)}>
+                              {month}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="pattern"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Periods</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {FISCAL_PATTERNS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="weekStartsOn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Week Starts On</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WEEKDAYS.map((day, i) => (
+                            <SelectItem key={day} value={String(i)}>
+                              {day}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {fiscalEnabled && pattern !== "months" && (
+              <p className="text-xs text-muted-foreground">
+                Each fiscal year starts on the chosen weekday on or before the 1st of its first month. Years with 53
+                weeks add the extra week to the last period.
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save Settings</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
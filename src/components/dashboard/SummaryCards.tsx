@@ -0,0 +1,31 @@
+import { cn } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { computeDelta } from "@/lib/comparison";
+import { SUMMARY_CARDS, type SalesSummary } from "@/lib/salesSummary";
+import { DeltaValue } from "./DeltaValue";
+
+interface SummaryCardsProps {
+  summary: SalesSummary;
+  /** Summary of the comparison period; adds a change line under each card. */
+  previous?: SalesSummary | null;
+  className?: string;
+}
+
+export const SummaryCards = ({ summary, previous, className }: SummaryCardsProps) => (
+  <div className={cn("grid grid-cols-1 md:grid-cols-5 gap-4 mb-6", className)}>
+    {SUMMARY_CARDS.map((card) => (
+      <Card key={card.key}>
+        <CardContent className="p-4">
+          <div className="text-sm font-medium text-muted-foreground">{card.label}</div>
+          <div className="text-2xl font-bold">{card.format(summary[card.key])}</div>
+          {previous && (
+            <div className="mt-1 text-xs">
+              <DeltaValue delta={computeDelta(summary[card.key], previous[card.key])} format={card.format} />
+              <div className="text-muted-foreground">vs {card.format(previous[card.key])}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    ))}
+  </div>
+);
@@ -0,0 +1,277 @@
+import * as React from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ProductSalesRow } from "@/lib/api";
+import { formatCurrency } from "@/lib/salesSummary";
+import type { SalesMetric } from "@/lib/timeSeries";
+import { optionBreakdown, optionMixByProduct, optionNames } from "@/lib/variantOptions";
+import { ChartCard } from "./ChartCard";
+import { CHART_COLORS, OTHER_COLOR } from "./chartColors";
+
+interface VariantOptionsPanelProps {
+  /** Rows as filtered in the results table. */
+  rows: ProductSalesRow[];
+}
+
+const METRIC_LABELS: Record<SalesMetric, string> = {
+  netSales: "Net Sales",
+  netItemsSold: "Net Items Sold",
+};
+
+const ALL_PRODUCTS = "all";
+
+/** Products and option values shown in the mix chart; smaller values are merged into "Other". */
+const MIX_PRODUCTS = 15;
+const MIX_VALUES = CHART_COLORS.length - 1;
+
+const formatShare = (value: number) => `${value.toFixed(1)}%`;
+
+const shareTooltip = (config: ChartConfig) => (
+  <ChartTooltipContent
+    formatter={(value, name) => (
+      <div className="flex w-full justify-between gap-4">
+        <span className="text-muted-foreground">{config[String(name)]?.label}</span>
+        <span className="font-mono font-medium">{formatShare(Number(value))}</span>
+      </div>
+    )}
+  />
+);
+
+export const VariantOptionsPanel = ({ rows }: VariantOptionsPanelProps) => {
+  const names = React.useMemo(() => optionNames(rows), [rows]);
+  const [selectedName, setSelectedName] = React.useState<string | null>(null);
+  const [metric, setMetric] = React.useState<SalesMetric>("netItemsSold");
+  const [focusProduct, setFocusProduct] = React.useState(ALL_PRODUCTS);
+
+  // Size is what buying teams plan ratios for, so it's the default when present
+  const optionName =
+    selectedName && names.includes(selectedName) ? selectedName : names.includes("Size") ? "Size" : names[0];
+
+  const breakdown = React.useMemo(
+    () => (optionName ? optionBreakdown(rows, optionName, metric) : []),
+    [rows, optionName, metric]
+  );
+  const mix = React.useMemo(
+    () => (optionName ? optionMixByProduct(rows, optionName, metric) : []),
+    [rows, optionName, metric]
+  );
+
+  const formatValue = metric === "netSales" ? formatCurrency : (value: number) => value.toLocaleString();
+  const focused = mix.find((product) => product.key === focusProduct);
+
+  // One series per common value; keys are positional so they're safe as CSS variable names
+  const mixValues = [...breakdown].sort((a, b) => b.total - a.total).slice(0, MIX_VALUES).map((share) => share.value);
+  const mixConfig: ChartConfig = Object.fromEntries([
+    ...mixValues.map((value, index) => [`v${index}`, { label: value, color: CHART_COLORS[index] }]),
+    ["other", { label: "Other", color: OTHER_COLOR }],
+  ]);
+  const mixData = mix.slice(0, MIX_PRODUCTS).map((product) => {
+    const point: Record<string, number | string> = { product: product.productTitle, other: 0 };
+    product.shares.forEach((share) => {
+      const index = mixValues.indexOf(share.value);
+      const key = index === -1 ? "other" : `v${index}`;
+      point[key] = ((point[key] as number | undefined) ?? 0) + share.share;
+    });
+    return point;
+  });
+
+  const curveConfig: ChartConfig = {
+    overall: { label: "All products", color: CHART_COLORS[0] },
+    focused: { label: focused?.productTitle ?? "Product", color: CHART_COLORS[2] },
+  };
+  const curveData = breakdown.map((share) => ({
+    value: share.value,
+    overall: share.share,
+    focused: focused?.shares.find((candidate) => candidate.value === share.value)?.share ?? 0,
+  }));
+
+  const breakdownConfig: ChartConfig = { total: { label: METRIC_LABELS[metric], color: CHART_COLORS[0] } };
+
+  if (!optionName) {
+    return (
+      <p className="py-8 text-center text-muted-foreground">
+        None of the variants in these results have options to break down.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={optionName} onValueChange={setSelectedName}>
+          <SelectTrigger className="h-8 w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {names.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as SalesMetric)}
+        >
+          <ToggleGroupItem value="netItemsSold">Items Sold</ToggleGroupItem>
+          <ToggleGroupItem value="netSales">Net Sales</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="ml-auto text-sm text-muted-foreground">
+          Options come from the backend when available, otherwise from variant titles like "Red / XL".
+        </p>
+      </div>
+
+      <ChartCard
+        title={`${METRIC_LABELS[metric]} by ${optionName.toLowerCase()}`}
+        description={`Across all ${mix.length.toLocaleString()} products with a ${optionName.toLowerCase()} option`}
+        filename={`${optionName.toLowerCase()}-${metric}`}
+      >
+        {(ref) => (
+          <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+            <ChartContainer ref={ref} config={breakdownConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={breakdown} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="value" tickLine={false} axisLine={false} tickMargin={8} interval={0} />
+                <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(value: number) => formatValue(value)} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, _, item) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">{METRIC_LABELS[metric]}</span>
+                          <span className="font-mono font-medium">
+                            {formatValue(Number(value))} ({formatShare(item.payload.share)})
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <div className="max-h-72 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{optionName}</TableHead>
+                    <TableHead className="text-right">{METRIC_LABELS[metric]}</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {breakdown.map((share) => (
+                    <TableRow key={share.value}>
+                      <TableCell className="font-medium">{share.value}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatValue(share.total)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatShare(share.share)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </ChartCard>
+
+      {optionName === "Size" && (
+        <ChartCard
+          title="Size curve"
+          description="Share of each size, overall and for one product, to plan size ratios"
+          filename={`size-curve-${metric}`}
+        >
+          {(ref) => (
+            <>
+              <div className="mb-2 flex justify-end">
+                <Select value={focused ? focusProduct : ALL_PRODUCTS} onValueChange={setFocusProduct}>
+                  <SelectTrigger className="h-8 w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PRODUCTS}>Compare with a product...</SelectItem>
+                    {mix.map((product) => (
+                      <SelectItem key={product.key} value={product.key}>
+                        {product.productTitle}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ChartContainer ref={ref} config={curveConfig} className="aspect-auto h-72 w-full">
+                <LineChart data={curveData} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="value" tickLine={false} axisLine={false} tickMargin={8} interval={0} />
+                  <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `${value}%`} />
+                  <ChartTooltip content={shareTooltip(curveConfig)} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="overall" type="monotone" stroke="var(--color-overall)" strokeWidth={2} />
+                  {focused && (
+                    <Line dataKey="focused" type="monotone" stroke="var(--color-focused)" strokeWidth={2} />
+                  )}
+                </LineChart>
+              </ChartContainer>
+            </>
+          )}
+        </ChartCard>
+      )}
+
+      <ChartCard
+        title={`${optionName} mix per product`}
+        description={`Share of ${METRIC_LABELS[metric].toLowerCase()} by ${optionName.toLowerCase()} for the top ${Math.min(MIX_PRODUCTS, mix.length)} products`}
+        filename={`${optionName.toLowerCase()}-mix-${metric}`}
+      >
+        {(ref) => (
+          <ChartContainer
+            ref={ref}
+            config={mixConfig}
+            className="aspect-auto w-full"
+            style={{ height: Math.max(240, mixData.length * 32 + 80) }}
+          >
+            <BarChart data={mixData} layout="vertical" stackOffset="expand" margin={{ left: 12, right: 24 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis
+                type="number"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+              />
+              <YAxis type="category" dataKey="product" tickLine={false} axisLine={false} width={200} interval={0} />
+              <ChartTooltip content={shareTooltip(mixConfig)} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {Object.keys(mixConfig).map((key) => (
+                <Bar key={key} dataKey={key} stackId="mix" fill={`var(--color-${key})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
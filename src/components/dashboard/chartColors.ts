@@ -0,0 +1,12 @@
+/** Categorical palette shared by the dashboard charts; the last entry is used for "Other". */
+export const CHART_COLORS = [
+  "hsl(217 91% 60%)",
+  "hsl(142 71% 45%)",
+  "hsl(38 92% 50%)",
+  "hsl(280 65% 60%)",
+  "hsl(350 80% 60%)",
+  "hsl(190 80% 45%)",
+  "hsl(215 16% 65%)",
+];
+
+export const OTHER_COLOR = CHART_COLORS[CHART_COLORS.length - 1];
@@ -0,0 +1,27 @@
+import * as React from "react";
+import { loadHistory, subscribeHistory, type HistoryEntry } from "@/lib/exportHistory";
+
+/** Export and sync history, newest first; `null` until IndexedDB has been read. */
+export function useExportHistory() {
+  const [entries, setEntries] = React.useState<HistoryEntry[] | null>(null);
+
+  React.useEffect(() => {
+    let active = true;
+    const refresh = () =>
+      loadHistory()
+        .then((loaded) => active && setEntries(loaded))
+        .catch((error) => {
+          console.error("Could not load export history:", error);
+          if (active) setEntries([]);
+        });
+
+    refresh();
+    const unsubscribe = subscribeHistory(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return entries;
+}
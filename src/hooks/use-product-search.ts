@@ -0,0 +1,24 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api";
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+/** Debounced catalog search; idle until at least two characters are typed. */
+export function useProductSearch(query: string) {
+  const [debounced, setDebounced] = React.useState(query.trim());
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ["product-search", debounced],
+    queryFn: ({ signal }) => apiClient.searchProducts({ query: debounced, limit: 25 }, { signal }),
+    enabled: debounced.length >= MIN_QUERY_LENGTH,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
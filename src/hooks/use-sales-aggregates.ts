@@ -0,0 +1,95 @@
+import * as React from "react";
+import type { ProductSalesRow } from "@/lib/api";
+import {
+  computeSalesAggregates,
+  EMPTY_SALES_AGGREGATES,
+  type SalesAggregates,
+  type SalesAggregatesRequest,
+  type SalesAggregatesResponse,
+} from "@/lib/salesAggregates";
+
+/**
+ * Computes variant totals, comparisons and summary figures in a web worker.
+ * While results stream in, at most one request is in flight; intermediate
+ * updates are coalesced into the latest rows. If the worker can't be started
+ * or fails, aggregation falls back to the main thread.
+ */
+export function useSalesAggregates(rows: ProductSalesRow[], comparisonRows: ProductSalesRow[] | null) {
+  const [aggregates, setAggregates] = React.useState<SalesAggregates>(EMPTY_SALES_AGGREGATES);
+  const [pending, setPending] = React.useState(false);
+  const [workerFailed, setWorkerFailed] = React.useState(false);
+  const workerRef = React.useRef<Worker | null>(null);
+  const queued = React.useRef<SalesAggregatesRequest | null>(null);
+  const inFlight = React.useRef(false);
+  const latestId = React.useRef(0);
+
+  React.useEffect(() => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("../lib/salesAggregates.worker.ts", import.meta.url), { type: "module" });
+    } catch {
+      setWorkerFailed(true);
+      return;
+    }
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<SalesAggregatesResponse>) => {
+      const next = queued.current;
+      queued.current = null;
+
+      if (next) {
+        worker.postMessage(next);
+      } else {
+        inFlight.current = false;
+        setPending(false);
+      }
+
+      // Results for anything but the latest rows are already out of date
+      if (event.data.id === latestId.current) setAggregates(event.data.aggregates);
+    };
+
+    // A worker that failed to load or threw won't answer; the next effect run recomputes on the main thread
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker.terminate();
+      workerRef.current = null;
+      inFlight.current = false;
+      queued.current = null;
+      setPending(false);
+      setWorkerFailed(true);
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlight.current = false;
+      queued.current = null;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    const worker = workerRef.current;
+    const id = ++latestId.current;
+    if (rows.length === 0 && !comparisonRows) {
+      queued.current = null;
+      setAggregates(EMPTY_SALES_AGGREGATES);
+      return;
+    }
+
+    if (!worker) {
+      if (workerFailed) setAggregates(computeSalesAggregates(rows, comparisonRows));
+      return;
+    }
+
+    const request: SalesAggregatesRequest = { id, rows, comparisonRows };
+    setPending(true);
+    if (inFlight.current) {
+      queued.current = request;
+    } else {
+      inFlight.current = true;
+      worker.postMessage(request);
+    }
+  }, [rows, comparisonRows, workerFailed]);
+
+  return { ...aggregates, pending };
+}
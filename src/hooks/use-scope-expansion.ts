@@ -0,0 +1,21 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiClient, type ProductScope } from "@/lib/api";
+import { isScopeEmpty, productScopeQueryOptions } from "@/lib/productScope";
+
+const DEBOUNCE_MS = 400;
+
+/** Previews how many products a scope expands to while the filters are being edited. */
+export function useScopeExpansion(scope: ProductScope) {
+  const [debounced, setDebounced] = React.useState(scope);
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(scope), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [scope]);
+
+  return useQuery({
+    ...productScopeQueryOptions(apiClient, debounced),
+    enabled: !isScopeEmpty(debounced),
+  });
+}
@@ -0,0 +1,6 @@
+import * as React from "react";
+import { getSheetDestinations, subscribeSheetDestinations } from "@/lib/sheetDestinations";
+
+export function useSheetDestinations() {
+  return React.useSyncExternalStore(subscribeSheetDestinations, getSheetDestinations);
+}
@@ -0,0 +1,6 @@
+import * as React from "react";
+import { getStoreSettings, subscribeStoreSettings } from "@/lib/storeSettings";
+
+export function useStoreSettings() {
+  return React.useSyncExternalStore(subscribeStoreSettings, getStoreSettings);
+}
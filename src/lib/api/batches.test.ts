@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchProductSalesInBatches } from "./batches";
+import { ApiError, createApiClient, type Transport } from "./client";
+
+const params = { productIds: ["1", "2", "3", "4"], startDate: "2024-01-01", endDate: "2024-01-31" };
+
+const fast = { batchSize: 2, concurrency: 1, retries: 2, retryDelayMs: 0 };
+
+const productIdsOf = (url: string) =>
+  new URL(url).searchParams.getAll("product_id").map((gid) => gid.replace("gid://shopify/Product/", ""));
+
+/** Answers each batch with one row per product, named after its ID. */
+const salesFor = (url: string) =>
+  Response.json(
+    productIdsOf(url).map((id) => ({ productTitle: `Product ${id}`, variantTitle: "Default", netItemsSold: 1, netSales: 10 }))
+  );
+
+const clientWith = (transport: Transport) => createApiClient({ baseUrl: "https://api.test", transport });
+
+describe("fetchProductSalesInBatches", () => {
+  it("retries a batch after a server error", async () => {
+    let failures = 1;
+    const transport = vi.fn<Transport>(async (url) => {
+      if (productIdsOf(url).includes("3") && failures-- > 0) return new Response("Unavailable", { status: 503 });
+      return salesFor(url);
+    });
+
+    const result = await fetchProductSalesInBatches(clientWith(transport), params, fast);
+
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(result.rows.map((row) => row.productTitle).sort()).toEqual(["Product 1", "Product 2", "Product 3", "Product 4"]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("reports a batch as failed once its retries run out", async () => {
+    const transport = vi.fn<Transport>(async (url) =>
+      productIdsOf(url).includes("1") ? new Response("Down", { status: 500 }) : salesFor(url)
+    );
+    const onBatchSettled = vi.fn();
+
+    const result = await fetchProductSalesInBatches(clientWith(transport), params, { ...fast, onBatchSettled });
+
+    expect(transport).toHaveBeenCalledTimes(4);
+    expect(result.failedProductIds).toEqual(["1", "2"]);
+    expect(result.rows).toHaveLength(2);
+    expect(onBatchSettled).toHaveBeenCalledWith(
+      0,
+      expect.objectContaining({ failure: expect.objectContaining({ productIds: ["1", "2"] }) })
+    );
+    expect(onBatchSettled).toHaveBeenCalledWith(1, expect.objectContaining({ failure: null }));
+  });
+
+  it("doesn't retry client errors", async () => {
+    const transport = vi.fn<Transport>(async () => new Response("Bad request", { status: 400 }));
+
+    const result = await fetchProductSalesInBatches(clientWith(transport), { ...params, productIds: ["1"] }, fast);
+
+    expect(transport).toHaveBeenCalledOnce();
+    expect(result.failures).toEqual([expect.objectContaining({ error: expect.stringContaining("400") })]);
+  });
+
+  it("abandons and retries an attempt that exceeds the timeout", async () => {
+    let hang = true;
+    const transport = vi.fn<Transport>((url, init) => {
+      if (!hang) return Promise.resolve(salesFor(url));
+      hang = false;
+      // Never answers; only the attempt's abort signal ends it
+      return new Promise((_, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)));
+    });
+
+    const result = await fetchProductSalesInBatches(clientWith(transport), { ...params, productIds: ["1"] }, {
+      ...fast,
+      attemptTimeoutMs: 20,
+    });
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(result.rows).toHaveLength(1);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("skips batches an earlier run already fetched", async () => {
+    const transport = vi.fn<Transport>(async (url) => salesFor(url));
+    const onProgress = vi.fn();
+
+    const result = await fetchProductSalesInBatches(clientWith(transport), params, {
+      ...fast,
+      skipBatches: [0],
+      onProgress,
+    });
+
+    expect(transport).toHaveBeenCalledOnce();
+    expect(productIdsOf(transport.mock.calls[0][0])).toEqual(["3", "4"]);
+    expect(onProgress.mock.calls[0][0]).toMatchObject({ processedProducts: 2, totalProducts: 4 });
+    expect(result.rows).toHaveLength(2);
+  });
+
+  it("stops without reporting failures when the caller aborts", async () => {
+    const controller = new AbortController();
+    const transport = vi.fn<Transport>(async () => {
+      controller.abort();
+      throw new ApiError(503, "Unavailable");
+    });
+
+    await expect(
+      fetchProductSalesInBatches(clientWith(transport), params, { ...fast, signal: controller.signal })
+    ).rejects.toBeDefined();
+    expect(transport).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,201 @@
+import { retry, runPool, chunk } from "@/lib/async";
+import { ApiError, isAbortError, toProductGid, type ApiClient } from "./client";
+import type { InvalidProductSalesRow, ProductSalesRow } from "./schemas";
+import type { ProductSalesParams, StreamRequestOptions } from "./types";
+
+export interface BatchOptions {
+  /** Product IDs sent per request. */
+  batchSize: number;
+  /** Batches allowed in flight at once. */
+  concurrency: number;
+  /** Extra attempts for a failing batch before its products are reported as failed. */
+  retries: number;
+  retryDelayMs: number;
+  /** A single attempt is abandoned (and retried) after this long. */
+  attemptTimeoutMs: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  batchSize: 25,
+  concurrency: 3,
+  retries: 3,
+  retryDelayMs: 1000,
+  attemptTimeoutMs: 300000,
+};
+
+export interface FailedBatch {
+  productIds: string[];
+  error: string;
+}
+
+export interface BatchOutcome {
+  rows: ProductSalesRow[];
+  invalidRows: InvalidProductSalesRow[];
+  failure: FailedBatch | null;
+}
+
+export interface BatchRunOptions extends Partial<BatchOptions>, StreamRequestOptions {
+  /** Indexes of batches already fetched by an earlier run; they are counted as processed but not requested. */
+  skipBatches?: number[];
+  /** Called once per batch when it succeeds or exhausts its retries. */
+  onBatchSettled?: (index: number, outcome: BatchOutcome) => void | Promise<void>;
+}
+
+export interface BatchedProductSalesResult {
+  rows: ProductSalesRow[];
+  invalidRows: InvalidProductSalesRow[];
+  failures: FailedBatch[];
+  failedProductIds: string[];
+}
+
+/** Client errors other than timeouts and rate limits will fail the same way again. */
+const isRetryable = (error: unknown) => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ApiError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+};
+
+export const planBatches = (productIds: string[], batchSize: number) => chunk(productIds, batchSize);
+
+const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(
+    () => controller.abort(new DOMException("The batch request timed out", "TimeoutError")),
+    timeoutMs
+  );
+
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+/**
+ * Splits `params.productIds` into batches and streams each one through
+ * `client.streamProductSales`, keeping at most `concurrency` requests open.
+ *
+ * Products that finish inside a failing batch keep their rows; only the
+ * remainder is retried. Batches that still fail after `retries` are returned in
+ * `failures` instead of rejecting the whole run. `onProgress` counts are
+ * relative to the full product list, including batches listed in `skipBatches`.
+ */
+export async function fetchProductSalesInBatches(
+  client: ApiClient,
+  params: ProductSalesParams,
+  { signal, onProgress, skipBatches = [], onBatchSettled, ...options }: BatchRunOptions = {}
+): Promise<BatchedProductSalesResult> {
+  const { batchSize, concurrency, retries, retryDelayMs, attemptTimeoutMs } = {
+    ...DEFAULT_BATCH_OPTIONS,
+    ...options,
+  };
+  const batches = planBatches(params.productIds, batchSize);
+  const skipped = new Set(skipBatches);
+  const totalProducts = params.productIds.length;
+  const result: BatchedProductSalesResult = {
+    rows: [],
+    invalidRows: [],
+    failures: [],
+    failedProductIds: [],
+  };
+  let processedProducts = batches
+    .filter((_, index) => skipped.has(index))
+    .reduce((sum, batch) => sum + batch.length, 0);
+
+  onProgress?.({
+    productId: null,
+    processedProducts,
+    totalProducts,
+    rows: [],
+    invalidRows: [],
+  });
+
+  const pendingBatches = batches
+    .map((productIds, index) => ({ productIds, index }))
+    .filter(({ index }) => !skipped.has(index));
+
+  await runPool(
+    pendingBatches,
+    concurrency,
+    async ({ productIds: batch, index }) => {
+      let pending = batch;
+      const outcome: BatchOutcome = { rows: [], invalidRows: [], failure: null };
+
+      const markProcessed = (
+        productId: string | null,
+        count: number,
+        rows: ProductSalesRow[] = [],
+        invalidRows: InvalidProductSalesRow[] = []
+      ) => {
+        processedProducts += count;
+        outcome.rows.push(...rows);
+        outcome.invalidRows.push(...invalidRows);
+        result.rows.push(...rows);
+        result.invalidRows.push(...invalidRows);
+        onProgress?.({ productId, processedProducts, totalProducts, rows, invalidRows });
+      };
+
+      try {
+        await retry(
+          async () => {
+            const remaining = new Map(pending.map((id) => [toProductGid(id), id]));
+            const attempt = withTimeout(signal, attemptTimeoutMs);
+
+            try {
+              await client.streamProductSales(
+                { ...params, productIds: pending },
+                {
+                  signal: attempt.signal,
+                  onProgress: (progress) => {
+                    if (progress.productId !== null) {
+                      const gid = toProductGid(progress.productId);
+                      if (!remaining.delete(gid)) return;
+                      markProcessed(progress.productId, 1, progress.rows, progress.invalidRows);
+                    } else if (progress.processedProducts >= progress.totalProducts) {
+                      // Non-streaming response: the whole batch arrived at once
+                      markProcessed(null, remaining.size, progress.rows, progress.invalidRows);
+                      remaining.clear();
+                    }
+                  },
+                }
+              );
+
+              if (remaining.size > 0) {
+                // The backend finished without reporting these products; treat them as empty
+                markProcessed(null, remaining.size);
+                remaining.clear();
+              }
+            } finally {
+              attempt.dispose();
+              pending = Array.from(remaining.values());
+            }
+          },
+          { retries, baseDelayMs: retryDelayMs, signal, shouldRetry: isRetryable }
+        );
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+
+        outcome.failure = {
+          productIds: pending,
+          error: error instanceof Error ? error.message : String(error),
+        };
+        result.failures.push(outcome.failure);
+        result.failedProductIds.push(...pending);
+        markProcessed(null, pending.length);
+      }
+
+      await onBatchSettled?.(index, outcome);
+    },
+    signal
+  );
+
+  return result;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiError, createApiClient, type Transport } from "./client";
+import { ResponseValidationError } from "./schemas";
+
+const row = (productTitle: string) => ({
+  productTitle,
+  variantTitle: "Default",
+  sku: "SKU-1",
+  netItemsSold: 2,
+  netSales: "19.90",
+});
+
+const ndjson = (...events: unknown[]) =>
+  new Response(events.map((event) => JSON.stringify(event)).join("\n"), {
+    headers: { "Content-Type": "application/x-ndjson" },
+  });
+
+const stubClient = (...responses: Response[]) => {
+  const transport = vi.fn<Transport>(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("No response left in the stub");
+    return next;
+  });
+  return { transport, client: createApiClient({ baseUrl: "https://api.test/", transport }) };
+};
+
+const params = { productIds: ["1", "gid://shopify/Product/2"], startDate: "2024-01-01", endDate: "2024-01-31" };
+
+describe("createApiClient", () => {
+  it("sends product sales queries through the transport", async () => {
+    const { client, transport } = stubClient(Response.json([row("Tee")]));
+
+    const result = await client.getProductSales({ ...params, granularity: "week", timeZone: "Europe/Berlin" });
+
+    const [url, init] = transport.mock.calls[0];
+    const query = new URL(url).searchParams;
+    expect(url.startsWith("https://api.test/product-sales?")).toBe(true);
+    expect(query.getAll("product_id")).toEqual(["gid://shopify/Product/1", "gid://shopify/Product/2"]);
+    expect(query.get("granularity")).toBe("week");
+    expect(query.get("timezone")).toBe("Europe/Berlin");
+    expect(init.headers).toMatchObject({ "Accept": "application/json" });
+    expect(result.rows).toEqual([expect.objectContaining({ productTitle: "Tee", netSales: 19.9 })]);
+    expect(result.invalidRows).toEqual([]);
+  });
+
+  it("collects rows that fail validation instead of dropping them", async () => {
+    const { client } = stubClient(Response.json([row("Tee"), { productTitle: "" }]));
+
+    const result = await client.getProductSales(params);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.invalidRows).toEqual([expect.objectContaining({ index: 1 })]);
+  });
+
+  it("throws an ApiError carrying the status and body", async () => {
+    const { client } = stubClient(new Response("Bad gateway", { status: 502 }));
+
+    const error = await client.getProductSales(params).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 502, body: "Bad gateway" });
+  });
+
+  it("rejects responses that don't match the schema", async () => {
+    const { client } = stubClient(Response.json({ rows: [] }));
+
+    await expect(client.getProductSales(params)).rejects.toThrow(ResponseValidationError);
+  });
+
+  describe("streamProductSales", () => {
+    it("reports each product as its NDJSON event arrives", async () => {
+      const { client } = stubClient(
+        ndjson(
+          { type: "start", totalProducts: 2 },
+          { type: "product", productId: "gid://shopify/Product/1", rows: [row("Tee")] },
+          { type: "product", productId: "gid://shopify/Product/2", rows: [row("Cap"), { netSales: 1 }] },
+          { type: "complete" }
+        )
+      );
+      const onProgress = vi.fn();
+
+      const result = await client.streamProductSales(params, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => [progress.productId, progress.processedProducts])).toEqual([
+        [null, 0],
+        ["gid://shopify/Product/1", 1],
+        ["gid://shopify/Product/2", 2],
+      ]);
+      expect(result.rows.map((salesRow) => salesRow.productTitle)).toEqual(["Tee", "Cap"]);
+      expect(result.invalidRows).toEqual([expect.objectContaining({ index: 2, productId: "gid://shopify/Product/2" })]);
+    });
+
+    it("falls back to a plain JSON array as a single progress event", async () => {
+      const { client } = stubClient(Response.json([row("Tee")]));
+      const onProgress = vi.fn();
+
+      const result = await client.streamProductSales(params, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledOnce();
+      expect(onProgress.mock.calls[0][0]).toMatchObject({ productId: null, processedProducts: 2, totalProducts: 2 });
+      expect(result.rows).toHaveLength(1);
+    });
+
+    it("fails when the stream reports an error", async () => {
+      const { client } = stubClient(
+        ndjson({ type: "start", totalProducts: 2 }, { type: "error", message: "Shopify timed out" })
+      );
+
+      await expect(client.streamProductSales(params)).rejects.toThrow("Server error: Shopify timed out");
+    });
+
+    it("cancels the response body when the stream reports an error", async () => {
+      const cancel = vi.fn();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // The server would keep streaming; only cancelling ends it
+          controller.enqueue(new TextEncoder().encode('{"type":"error","message":"Shopify timed out"}\n'));
+        },
+        cancel,
+      });
+      const { client } = stubClient(new Response(body, { headers: { "Content-Type": "application/x-ndjson" } }));
+
+      await expect(client.streamProductSales(params)).rejects.toThrow("Server error: Shopify timed out");
+      expect(cancel).toHaveBeenCalledOnce();
+    });
+
+    it("fails when the stream ends without completing", async () => {
+      const { client } = stubClient(
+        ndjson({ type: "start", totalProducts: 2 }, { type: "product", productId: "1", rows: [] })
+      );
+
+      await expect(client.streamProductSales(params)).rejects.toThrow(ResponseValidationError);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { readNdjson } from "./ndjson";
+import {
+  parseGoogleSheetContents,
+  parseProductLookupResponse,
+  parseProductScopeResponse,
+  parseProductSalesResponse,
+  parseProductSearchResponse,
+  productSalesStreamEventSchema,
+  ResponseValidationError,
+} from "./schemas";
+import type {
+  GoogleSheetDestination,
+  ProductLookupRequest,
+  ProductScope,
+  ProductSalesParams,
+  ProductSalesResponse,
+  ProductSearchParams,
+  RequestOptions,
+  StreamRequestOptions,
+  UpdateGoogleSheetRequest,
+  UpdateGoogleSheetResponse,
+} from "./types";
+
+/**
+ * Performs the actual HTTP call. Defaults to `fetch`; tests and alternative
+ * runtimes can swap in a stub with the same signature.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  transport?: Transport;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(status: number, body: string) {
+    super(`Server error: ${status} - ${body}`);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === "AbortError";
+
+export const toProductGid = (id: string) =>
+  id.startsWith("gid://") ? id : `gid://shopify/Product/${id}`;
+
+const defaultTransport: Transport = (url, init) => fetch(url, init);
+
+export function createApiClient({ baseUrl, transport = defaultTransport }: ApiClientOptions) {
+  const root = (baseUrl ?? "").replace(/\/+$/, "");
+
+  const send = async (path: string, init: RequestInit = {}) => {
+    const response = await transport(`${root}${path}`, {
+      ...init,
+      headers: {
+        "Accept": "application/json",
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await response.text());
+    }
+
+    return response;
+  };
+
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const text = await (await send(path, init)).text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+
+  const productSalesQuery = (params: ProductSalesParams) => {
+    const query = new URLSearchParams();
+    params.productIds.forEach((id) => query.append("product_id", toProductGid(id)));
+    query.set("start_date", params.startDate);
+    query.set("end_date", params.endDate);
+    if (params.granularity) query.set("granularity", params.granularity);
+    if (params.timeZone) query.set("timezone", params.timeZone);
+    return query;
+  };
+
+  return {
+    baseUrl: root,
+
+    async getProductSales(
+      params: ProductSalesParams,
+      { signal }: RequestOptions = {}
+    ): Promise<ProductSalesResponse> {
+      const query = productSalesQuery(params);
+      const payload = await request<unknown>(`/product-sales?${query}`, { signal });
+      return parseProductSalesResponse(payload);
+    },
+
+    /**
+     * Requests `/product-sales` as NDJSON and reports each finished product
+     * through `onProgress`. Backends that ignore `stream=ndjson` and answer with
+     * a plain JSON array are handled too, as a single progress event.
+     */
+    async streamProductSales(
+      params: ProductSalesParams,
+      { signal, onProgress }: StreamRequestOptions = {}
+    ): Promise<ProductSalesResponse> {
+      const query = productSalesQuery(params);
+      query.set("stream", "ndjson");
+
+      const response = await send(`/product-sales?${query}`, {
+        signal,
+        headers: { "Accept": "application/x-ndjson, application/json" },
+      });
+
+      const totalProducts = params.productIds.length;
+      const contentType = response.headers.get("Content-Type") ?? "";
+
+      if (!contentType.includes("ndjson") || !response.body) {
+        const text = await response.text();
+        const result = parseProductSalesResponse(text ? JSON.parse(text) : undefined);
+        onProgress?.({
+          productId: null,
+          processedProducts: totalProducts,
+          totalProducts,
+          ...result,
+        });
+        return result;
+      }
+
+      const result: ProductSalesResponse = { rows: [], invalidRows: [] };
+      let processedProducts = 0;
+      let expectedProducts = totalProducts;
+      let completed = false;
+      let rowIndex = 0;
+
+      for await (const line of readNdjson(response.body)) {
+        const parsed = productSalesStreamEventSchema.safeParse(line);
+        if (!parsed.success) {
+          throw new ResponseValidationError(`Unexpected stream event: ${JSON.stringify(line)}`);
+        }
+
+        const event = parsed.data;
+        if (event.type === "start") {
+          expectedProducts = event.totalProducts;
+          onProgress?.({
+            productId: null,
+            processedProducts,
+            totalProducts: expectedProducts,
+            rows: [],
+            invalidRows: [],
+          });
+        } else if (event.type === "product") {
+          const chunk = parseProductSalesResponse(event.rows, rowIndex);
+          chunk.invalidRows.forEach((row) => (row.productId = event.productId));
+          rowIndex += event.rows.length;
+          processedProducts += 1;
+          result.rows.push(...chunk.rows);
+          result.invalidRows.push(...chunk.invalidRows);
+          onProgress?.({
+            productId: event.productId,
+            processedProducts,
+            totalProducts: expectedProducts,
+            ...chunk,
+          });
+        } else if (event.type === "error") {
+          throw new Error(`Server error: ${event.message}`);
+        } else {
+          completed = true;
+        }
+      }
+
+      if (!completed) {
+        throw new ResponseValidationError("The product sales stream ended before it completed");
+      }
+
+      return result;
+    },
+
+    async lookupProducts(payload: ProductLookupRequest, { signal }: RequestOptions = {}) {
+      const response = await request<unknown>("/product-lookup", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        signal,
+      });
+      return parseProductLookupResponse(response);
+    },
+
+    async searchProducts({ query, limit }: ProductSearchParams, { signal }: RequestOptions = {}) {
+      const search = new URLSearchParams({ q: query });
+      if (limit) search.set("limit", String(limit));
+      const payload = await request<unknown>(`/products/search?${search}`, { signal });
+      return parseProductSearchResponse(payload);
+    },
+
+    async expandProductScope(scope: ProductScope, { signal }: RequestOptions = {}) {
+      const payload = await request<unknown>("/product-scope/expand", {
+        method: "POST",
+        body: JSON.stringify(scope),
+        signal,
+      });
+      return parseProductScopeResponse(payload);
+    },
+
+    /** Current contents of a tab, so a push can be previewed before anything is written. */
+    async readGoogleSheet(
+      { spreadsheetId, sheetName }: Pick<GoogleSheetDestination, "spreadsheetId" | "sheetName">,
+      { signal }: RequestOptions = {}
+    ) {
+      const query = new URLSearchParams({ spreadsheet_id: spreadsheetId, sheet_name: sheetName });
+      const payload = await request<unknown>(`/read-googlesheet?${query}`, { signal });
+      return parseGoogleSheetContents(payload);
+    },
+
+    updateGoogleSheet(payload: UpdateGoogleSheetRequest, { signal }: RequestOptions = {}) {
+      return request<UpdateGoogleSheetResponse>("/update-googlesheet", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        signal,
+      });
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
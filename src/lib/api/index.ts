@@ -0,0 +1,8 @@
+import { createApiClient } from "./client";
+
+export * from "./batches";
+export * from "./client";
+export * from "./schemas";
+export * from "./types";
+
+export const apiClient = createApiClient({ baseUrl: import.meta.env.VITE_BACKEND_API });
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import { readNdjson } from "./ndjson";
+
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const lines: unknown[] = [];
+  for await (const line of readNdjson(body)) lines.push(line);
+  return lines;
+};
+
+describe("readNdjson", () => {
+  it("yields one value per line, skipping blank lines", async () => {
+    expect(await collect(streamOf('{"a":1}\n\n{"b":2}\n'))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("joins lines split across chunks", async () => {
+    expect(await collect(streamOf('{"type":"st', 'art"}\n{"n"', ":3}\n"))).toEqual([{ type: "start" }, { n: 3 }]);
+  });
+
+  it("emits a trailing line without a newline", async () => {
+    expect(await collect(streamOf('{"a":1}\n{"b":2}'))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("rejects a malformed line", async () => {
+    await expect(collect(streamOf('{"a":1}\nnot json\n'))).rejects.toThrow(SyntaxError);
+  });
+
+  describe("cancellation", () => {
+    /** A body that keeps the connection open after its first chunk, like a server still streaming. */
+    const openStream = (chunk: string) => {
+      const cancel = vi.fn();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        },
+        cancel,
+      });
+      return { body, cancel };
+    };
+
+    it("cancels the body when a line is malformed", async () => {
+      const { body, cancel } = openStream('{"a":1}\nnot json\n');
+
+      await expect(collect(body)).rejects.toThrow(SyntaxError);
+      expect(cancel).toHaveBeenCalledOnce();
+      expect(body.locked).toBe(false);
+    });
+
+    it("cancels the body when the consumer stops early", async () => {
+      const { body, cancel } = openStream('{"a":1}\n{"b":2}\n');
+
+      for await (const line of readNdjson(body)) {
+        expect(line).toEqual({ a: 1 });
+        break;
+      }
+      expect(cancel).toHaveBeenCalledOnce();
+    });
+
+    it("doesn't cancel a body that was read to the end", async () => {
+      const cancel = vi.fn();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"a":1}\n'));
+          controller.close();
+        },
+        cancel,
+      });
+
+      await collect(body);
+      expect(cancel).not.toHaveBeenCalled();
+    });
+  });
+});
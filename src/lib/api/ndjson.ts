@@ -0,0 +1,38 @@
+/**
+ * Yields each non-empty line of a newline-delimited JSON body as parsed JSON.
+ * A trailing line without a newline is still emitted once the stream closes.
+ * If reading stops early (a malformed line, or the consumer breaks off), the
+ * body is cancelled so the server stops sending it.
+ */
+export async function* readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line);
+        newline = buffer.indexOf("\n");
+      }
+
+      if (done) {
+        finished = true;
+        break;
+      }
+    }
+
+    const rest = buffer.trim();
+    if (rest) yield JSON.parse(rest);
+  } finally {
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+
+/** Accepts numbers as well as numeric strings, which some backend paths emit for money values. */
+const numeric = z.union([
+  z.number().finite(),
+  z
+    .string()
+    .trim()
+    .regex(/^-?\d+(\.\d+)?$/, "Expected a numeric string")
+    .transform(Number),
+]);
+
+export const productSalesRowSchema = z.object({
+  /** Product GID, when the backend includes it; titles aren't unique across a catalog. */
+  productId: z
+    .string()
+    .nullish()
+    .transform((id) => (id ? id : undefined)),
+  productTitle: z.string().min(1, "Product title is missing"),
+  vendor: z
+    .string()
+    .nullish()
+    .transform((vendor) => (vendor ? vendor : undefined)),
+  variantTitle: z.string(),
+  /** Structured variant options, e.g. `[{ name: "Size", value: "XL" }]`, when the backend includes them. */
+  selectedOptions: z
+    .array(z.object({ name: z.string(), value: z.string() }))
+    .nullish()
+    .transform((options) => options ?? undefined),
+  sku: z
+    .string()
+    .nullish()
+    .transform((sku) => (sku ? sku : null)),
+  netItemsSold: numeric,
+  netSales: numeric,
+  /** Start of the bucket (`yyyy-MM-dd`) when the query asked for a granularity. */
+  period: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, "Expected a yyyy-MM-dd period")
+    .transform((period) => period.slice(0, 10))
+    .optional(),
+});
+
+export type ProductSalesRow = z.infer<typeof productSalesRowSchema>;
+
+export interface InvalidProductSalesRow {
+  /** Position of the row in the raw response. */
+  index: number;
+  /** Product the row was streamed for, when known. */
+  productId?: string;
+  raw: unknown;
+  issues: string[];
+}
+
+export interface ProductSalesResult {
+  rows: ProductSalesRow[];
+  invalidRows: InvalidProductSalesRow[];
+}
+
+/**
+ * Events emitted by `/product-sales?stream=ndjson`, one JSON object per line.
+ * `product` carries the finished rows for a single product as they become available.
+ */
+export const productSalesStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("start"), totalProducts: z.number().int().nonnegative() }),
+  z.object({ type: z.literal("product"), productId: z.string(), rows: z.array(z.unknown()) }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+  z.object({ type: z.literal("complete") }),
+]);
+
+export type ProductSalesStreamEvent = z.infer<typeof productSalesStreamEventSchema>;
+
+export class ResponseValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResponseValidationError";
+  }
+}
+
+const formatIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+
+/**
+ * Validates every row of a `/product-sales` payload. Rows that fail the schema
+ * are collected rather than dropped silently so the UI can report them.
+ * `offset` shifts reported indexes when validating one chunk of a larger stream.
+ */
+export function parseProductSalesResponse(payload: unknown, offset = 0): ProductSalesResult {
+  if (!Array.isArray(payload)) {
+    throw new ResponseValidationError(
+      `Expected an array of product sales rows but received ${payload === null ? "null" : typeof payload}`
+    );
+  }
+
+  const result: ProductSalesResult = { rows: [], invalidRows: [] };
+
+  payload.forEach((raw, index) => {
+    const parsed = productSalesRowSchema.safeParse(raw);
+    if (parsed.success) {
+      result.rows.push(parsed.data);
+    } else {
+      result.invalidRows.push({
+        index: offset + index,
+        raw,
+        issues: parsed.error.issues.map(formatIssue),
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * `/product-lookup` maps each requested handle and SKU to the GID of the
+ * product it belongs to, or `null` when nothing matched.
+ */
+export const productLookupResponseSchema = z.object({
+  handles: z.record(z.string().nullable()).default({}),
+  skus: z.record(z.string().nullable()).default({}),
+});
+
+export type ProductLookupResponse = z.infer<typeof productLookupResponseSchema>;
+
+export function parseProductLookupResponse(payload: unknown): ProductLookupResponse {
+  const parsed = productLookupResponseSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new ResponseValidationError(
+      `Unexpected product lookup response: ${parsed.error.issues.map(formatIssue).join("; ")}`
+    );
+  }
+  return parsed.data;
+}
+
+export const productSearchResultSchema = z.object({
+  /** Product GID. */
+  id: z.string().min(1),
+  title: z.string(),
+  vendor: z.string().nullish(),
+  productType: z.string().nullish(),
+  tags: z.array(z.string()).default([]),
+  skus: z.array(z.string()).default([]),
+  imageUrl: z.string().nullish(),
+});
+
+export type ProductSearchResult = z.infer<typeof productSearchResultSchema>;
+
+export function parseProductSearchResponse(payload: unknown): ProductSearchResult[] {
+  const parsed = z.array(productSearchResultSchema).safeParse(payload);
+  if (!parsed.success) {
+    throw new ResponseValidationError(
+      `Unexpected product search response: ${parsed.error.issues.map(formatIssue).join("; ")}`
+    );
+  }
+  return parsed.data;
+}
+
+/** `/product-scope/expand` returns the GIDs of every product matching the scope. */
+export const productScopeResponseSchema = z.object({
+  productIds: z.array(z.string().min(1)),
+});
+
+export function parseProductScopeResponse(payload: unknown): string[] {
+  const parsed = productScopeResponseSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new ResponseValidationError(
+      `Unexpected product scope response: ${parsed.error.issues.map(formatIssue).join("; ")}`
+    );
+  }
+  return parsed.data.productIds;
+}
+
+/** `/read-googlesheet` returns a tab's header row and the rows below it as stored. */
+export const googleSheetContentsSchema = z.object({
+  headers: z.array(z.coerce.string()).default([]),
+  rows: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))).default([]),
+});
+
+export type GoogleSheetContents = z.infer<typeof googleSheetContentsSchema>;
+
+export function parseGoogleSheetContents(payload: unknown): GoogleSheetContents {
+  const parsed = googleSheetContentsSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new ResponseValidationError(
+      `Unexpected Google Sheet contents: ${parsed.error.issues.map(formatIssue).join("; ")}`
+    );
+  }
+  return parsed.data;
+}
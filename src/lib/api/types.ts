@@ -0,0 +1,84 @@
+import type { InvalidProductSalesRow, ProductSalesResult, ProductSalesRow } from "./schemas";
+
+export interface ProductSalesParams {
+  /** Shopify product GIDs, e.g. `gid://shopify/Product/14968509825348`. */
+  productIds: string[];
+  /** Inclusive start of the range, formatted `yyyy-MM-dd`. */
+  startDate: string;
+  /** Inclusive end of the range, formatted `yyyy-MM-dd`. */
+  endDate: string;
+  /** Split each variant's sales into buckets; rows then carry a `period`. */
+  granularity?: "day" | "week" | "month";
+  /** IANA zone the backend should interpret `startDate`/`endDate` in. */
+  timeZone?: string;
+}
+
+export type ProductSalesResponse = ProductSalesResult;
+
+export interface ProductLookupRequest {
+  /** Storefront handles, e.g. `classic-tee`. */
+  handles: string[];
+  /** Variant SKUs; each resolves to the product that owns the variant. */
+  skus: string[];
+}
+
+export interface ProductSearchParams {
+  /** Matched against title, SKU, vendor and tags. */
+  query: string;
+  limit?: number;
+}
+
+/**
+ * Selects products by catalog attributes instead of listing them. Values within
+ * one filter are alternatives; filters that are set must all match.
+ */
+export interface ProductScope {
+  /** Collection handles or titles. */
+  collections: string[];
+  vendors: string[];
+  productTypes: string[];
+  tags: string[];
+}
+
+/** How rows land in the tab: overwrite it, add below existing rows, or update rows by SKU. */
+export type SheetWriteMode = "replace" | "append" | "upsert";
+
+export interface GoogleSheetDestination {
+  spreadsheetId: string;
+  /** Tab name; the backend creates it when missing. */
+  sheetName: string;
+  writeMode: SheetWriteMode;
+  /** Sheet column rows are matched on in "upsert" mode, i.e. the one mapped from the SKU. */
+  keyColumn?: string;
+}
+
+export interface UpdateGoogleSheetRequest {
+  destination: GoogleSheetDestination;
+  /** Sheet column names, in order. */
+  headers: string[];
+  /** Unformatted values matching `headers`; money is rounded to cents. */
+  rows: (string | number | null)[][];
+}
+
+export interface UpdateGoogleSheetResponse {
+  success?: boolean;
+  message?: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ProductSalesProgress {
+  /** Product that just finished, or `null` for the initial `start` event. */
+  productId: string | null;
+  processedProducts: number;
+  totalProducts: number;
+  /** Rows that arrived with this event only. */
+  rows: ProductSalesRow[];
+  invalidRows: InvalidProductSalesRow[];
+}
+
+export interface StreamRequestOptions extends RequestOptions {
+  onProgress?: (progress: ProductSalesProgress) => void;
+}
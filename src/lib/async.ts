@@ -0,0 +1,79 @@
+export function chunk<T>(items: T[], size: number): T[][] {
+  const step = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += step) {
+    chunks.push(items.slice(i, i + step));
+  }
+  return chunks;
+}
+
+/** Resolves after `ms`, or rejects with the signal's abort reason if it fires first. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight.
+ * Worker errors propagate and stop further items from being scheduled.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+}
+
+export interface RetryOptions {
+  /** Additional attempts after the first one. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/** Calls `fn` until it succeeds, backing off exponentially (with jitter) between attempts. */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries, baseDelayMs, maxDelayMs = 30000, signal, shouldRetry = () => true }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !shouldRetry(error)) throw error;
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { downloadFile } from "@/lib/csv";
+
+/**
+ * Saves a rendered recharts chart as SVG or PNG. Chart colors come from CSS
+ * variables and classes that don't exist outside the page, so computed
+ * presentation styles are inlined into a copy of the SVG first.
+ */
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+function chartSvg(container: HTMLElement): SVGSVGElement | null {
+  return container.querySelector<SVGSVGElement>("svg.recharts-surface");
+}
+
+/** Size the chart was laid out at, which is also right when the chart sits off-screen for a report. */
+function chartSize(svg: SVGSVGElement) {
+  const width = svg.width.baseVal.value || svg.getBoundingClientRect().width;
+  const height = svg.height.baseVal.value || svg.getBoundingClientRect().height;
+  return { width, height };
+}
+
+function standaloneSvg(svg: SVGSVGElement): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const targets = [copy, ...Array.from(copy.querySelectorAll("*"))];
+
+  sources.forEach((source, index) => {
+    const computed = getComputedStyle(source);
+    const style = INLINED_STYLES.map((property) => `${property}:${computed.getPropertyValue(property)}`).join(";");
+    targets[index].setAttribute("style", style);
+  });
+
+  const { width, height } = chartSize(svg);
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+  copy.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  return new XMLSerializer().serializeToString(copy);
+}
+
+export function downloadChartSvg(container: HTMLElement, filename: string) {
+  const svg = chartSvg(container);
+  if (!svg) throw new Error("Chart hasn't rendered yet");
+  downloadFile(standaloneSvg(svg), `${filename}.svg`, "image/svg+xml;charset=utf-8");
+}
+
+/** Rasterizes at `scale`× on a white background, since most viewers show transparency as black. */
+async function chartCanvas(container: HTMLElement, scale: number) {
+  const svg = chartSvg(container);
+  if (!svg) throw new Error("Chart hasn't rendered yet");
+
+  const { width, height } = chartSize(svg);
+  const url = URL.createObjectURL(new Blob([standaloneSvg(svg)], { type: "image/svg+xml;charset=utf-8" }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render chart image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not supported in this browser");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return { canvas, width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function downloadChartPng(container: HTMLElement, filename: string, scale = 2) {
+  const { canvas } = await chartCanvas(container, scale);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not encode chart image");
+  downloadFile(blob, `${filename}.png`, "image/png");
+}
+
+export interface ChartImage {
+  /** PNG data URL. */
+  dataUrl: string;
+  /** Size in CSS pixels; the image itself is `scale`× larger. */
+  width: number;
+  height: number;
+}
+
+/** The chart as a PNG data URL, for embedding in generated documents. */
+export async function chartImage(container: HTMLElement, scale = 2): Promise<ChartImage> {
+  const { canvas, width, height } = await chartCanvas(container, scale);
+  return { dataUrl: canvas.toDataURL("image/png"), width, height };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { ProductSalesRow } from "@/lib/api";
+import { compareRows, computeDelta, formatPercent, getComparisonParams } from "./comparison";
+
+const row = (overrides: Partial<ProductSalesRow>): ProductSalesRow => ({
+  productTitle: "Tee",
+  variantTitle: "Default",
+  sku: null,
+  netItemsSold: 0,
+  netSales: 0,
+  ...overrides,
+});
+
+describe("computeDelta", () => {
+  it("reports the change against the previous value", () => {
+    expect(computeDelta(150, 100)).toEqual({ previous: 100, absolute: 50, percent: 50 });
+  });
+
+  it("has no percentage when the previous value is zero", () => {
+    expect(computeDelta(25, 0)).toEqual({ previous: 0, absolute: 25, percent: null });
+    expect(formatPercent(null)).toBe("n/a");
+  });
+
+  it("measures against the size of a negative previous value", () => {
+    expect(computeDelta(-50, -100).percent).toBe(50);
+  });
+});
+
+describe("compareRows", () => {
+  it("joins variants on SKU even when titles changed", () => {
+    const [compared] = compareRows(
+      [row({ sku: "TEE-S", productTitle: "Tee (new)", netItemsSold: 4, netSales: 80 })],
+      [row({ sku: "TEE-S", productTitle: "Tee", netItemsSold: 2, netSales: 40 })]
+    );
+
+    expect(compared.productTitle).toBe("Tee (new)");
+    expect(compared.comparison.netSales).toEqual({ previous: 40, absolute: 40, percent: 100 });
+  });
+
+  it("falls back to product and variant title for rows without a SKU", () => {
+    const compared = compareRows(
+      [row({ variantTitle: "S", netSales: 10 }), row({ variantTitle: "M", netSales: 10 })],
+      [row({ variantTitle: "M", netSales: 5 })]
+    );
+
+    expect(compared.map((entry) => entry.comparison.netSales.previous)).toEqual([0, 5]);
+    expect(compared[0].comparison.netSales.percent).toBeNull();
+  });
+
+  it("sums repeated previous rows for the same variant", () => {
+    const [compared] = compareRows(
+      [row({ sku: "A", netSales: 30 })],
+      [row({ sku: "A", netSales: 10 }), row({ sku: "A", netSales: 5 })]
+    );
+
+    expect(compared.comparison.netSales.previous).toBe(15);
+  });
+
+  it("keeps variants that only sold in the previous period at zero", () => {
+    const compared = compareRows([], [row({ sku: "GONE", netItemsSold: 3, netSales: 60 })]);
+
+    expect(compared).toEqual([
+      expect.objectContaining({
+        sku: "GONE",
+        netItemsSold: 0,
+        netSales: 0,
+        comparison: {
+          netItemsSold: { previous: 3, absolute: -3, percent: -100 },
+          netSales: { previous: 60, absolute: -60, percent: -100 },
+        },
+      }),
+    ]);
+  });
+});
+
+describe("getComparisonParams", () => {
+  const params = { productIds: ["1"], startDate: "2024-03-01", endDate: "2024-03-31", granularity: "week" as const };
+
+  it("uses the same number of days right before the range", () => {
+    expect(getComparisonParams(params, "previous_period")).toEqual({
+      productIds: ["1"],
+      startDate: "2024-01-30",
+      endDate: "2024-02-29",
+    });
+  });
+
+  it("uses the same dates a year earlier", () => {
+    expect(getComparisonParams(params, "previous_year")).toMatchObject({ startDate: "2023-03-01", endDate: "2023-03-31" });
+  });
+
+  it("shifts by 52 weeks under a week-based fiscal calendar", () => {
+    const calendar = { startMonth: 2, pattern: "4-4-5" as const, weekStartsOn: 0 as const };
+
+    expect(getComparisonParams(params, "previous_year", calendar)).toMatchObject({
+      startDate: "2023-03-03",
+      endDate: "2023-04-02",
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { addDays, differenceInCalendarDays, subYears } from "date-fns";
+import type { ProductSalesParams, ProductSalesRow } from "@/lib/api";
+import { formatIsoDate, parseIsoDate } from "@/lib/dateRanges";
+import { fiscalYearShiftDays, type FiscalCalendar } from "@/lib/fiscalCalendar";
+
+export type ComparisonMode = "none" | "previous_period" | "previous_year";
+
+export const COMPARISON_OPTIONS: { value: ComparisonMode; label: string }[] = [
+  { value: "none", label: "No comparison" },
+  { value: "previous_period", label: "Previous period" },
+  { value: "previous_year", label: "Same period last year" },
+];
+
+export interface ComparisonQuery {
+  mode: Exclude<ComparisonMode, "none">;
+  params: ProductSalesParams;
+}
+
+export interface Delta {
+  previous: number;
+  absolute: number;
+  /** `null` when the previous value is zero and a percentage is meaningless. */
+  percent: number | null;
+}
+
+export interface RowComparison {
+  netItemsSold: Delta;
+  netSales: Delta;
+}
+
+export type ComparedRow = ProductSalesRow & { comparison: RowComparison };
+
+/**
+ * The range the current one is compared against. "Previous period" is the
+ * same number of days immediately before `startDate`; with a week-based fiscal
+ * calendar "last year" is shifted by 52 weeks so weekdays line up.
+ */
+export function getComparisonParams(
+  params: ProductSalesParams,
+  mode: Exclude<ComparisonMode, "none">,
+  fiscalCalendar?: FiscalCalendar | null
+): ProductSalesParams {
+  // Only variant totals are compared, so the comparison never needs per-period rows
+  const { granularity: _granularity, ...totals } = params;
+  const start = parseIsoDate(params.startDate);
+  const end = parseIsoDate(params.endDate);
+
+  const weekShift = fiscalYearShiftDays(fiscalCalendar ?? null);
+  if (mode === "previous_year" && weekShift) {
+    return {
+      ...totals,
+      startDate: formatIsoDate(addDays(start, -weekShift)),
+      endDate: formatIsoDate(addDays(end, -weekShift)),
+    };
+  }
+
+  if (mode === "previous_year") {
+    return { ...totals, startDate: formatIsoDate(subYears(start, 1)), endDate: formatIsoDate(subYears(end, 1)) };
+  }
+
+  const length = differenceInCalendarDays(end, start) + 1;
+  return {
+    ...totals,
+    startDate: formatIsoDate(addDays(start, -length)),
+    endDate: formatIsoDate(addDays(start, -1)),
+  };
+}
+
+export function computeDelta(current: number, previous: number): Delta {
+  return {
+    previous,
+    absolute: current - previous,
+    percent: previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100,
+  };
+}
+
+/** Variants are matched by SKU, falling back to product and variant title for rows without one. */
+export const variantKey = (row: ProductSalesRow) =>
+  row.sku ? `sku:${row.sku}` : `title:${row.productTitle}\u0000${row.variantTitle}`;
+
+/**
+ * Joins the current rows with the comparison rows. Variants that only sold in
+ * the comparison period are kept with zero current sales so declines to zero
+ * stay visible.
+ */
+export function compareRows(current: ProductSalesRow[], previous: ProductSalesRow[]): ComparedRow[] {
+  const previousByKey = new Map<string, ProductSalesRow>();
+  previous.forEach((row) => {
+    const key = variantKey(row);
+    const existing = previousByKey.get(key);
+    previousByKey.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            netItemsSold: existing.netItemsSold + row.netItemsSold,
+            netSales: existing.netSales + row.netSales,
+          }
+        : row
+    );
+  });
+
+  const compared: ComparedRow[] = current.map((row) => {
+    const key = variantKey(row);
+    const match = previousByKey.get(key);
+    previousByKey.delete(key);
+    return {
+      ...row,
+      comparison: {
+        netItemsSold: computeDelta(row.netItemsSold, match?.netItemsSold ?? 0),
+        netSales: computeDelta(row.netSales, match?.netSales ?? 0),
+      },
+    };
+  });
+
+  previousByKey.forEach((row) => {
+    compared.push({
+      ...row,
+      netItemsSold: 0,
+      netSales: 0,
+      comparison: {
+        netItemsSold: computeDelta(0, row.netItemsSold),
+        netSales: computeDelta(0, row.netSales),
+      },
+    });
+  });
+
+  return compared;
+}
+
+export const formatPercent = (percent: number | null) =>
+  percent === null ? "n/a" : `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
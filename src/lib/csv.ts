@@ -0,0 +1,39 @@
+export type CsvValue = string | number | null | undefined;
+
+export const escapeCsv = (value: CsvValue) => {
+  if (value === null || value === undefined) return '""';
+  return `"${value.toString().replace(/"/g, '""')}"`;
+};
+
+export interface DelimitedOptions {
+  delimiter: string;
+  /** "all" quotes every field, as `toCsv` always has; "minimal" only fields that need it. */
+  quoting: "all" | "minimal";
+}
+
+const escapeMinimal = (value: CsvValue, delimiter: string) => {
+  if (value === null || value === undefined) return "";
+  const text = value.toString();
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toDelimited(headers: string[], rows: CsvValue[][], { delimiter, quoting }: DelimitedOptions) {
+  const escape = quoting === "all" ? escapeCsv : (value: CsvValue) => escapeMinimal(value, delimiter);
+  return [headers, ...rows].map((row) => row.map(escape).join(delimiter)).join("\n");
+}
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  toDelimited(headers, rows, { delimiter: ",", quoting: "all" });
+
+/** Triggers a browser download of `content` under `filename`. */
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,141 @@
+/**
+ * View state for tabular results: sorting, per-column and global filters,
+ * paging and column layout. Everything here is pure so the table and the
+ * exports derive the exact same view from the same state.
+ */
+export type CellValue = string | number | null;
+
+export interface GridColumn<T> {
+  id: string;
+  label: string;
+  /** Decides the filter control and how values compare when sorting. */
+  kind: "text" | "number";
+  value: (row: T) => CellValue;
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  columnId: string;
+  direction: SortDirection;
+}
+
+export type ColumnFilter =
+  | { type: "text"; query: string }
+  | { type: "range"; min: number | null; max: number | null };
+
+export interface GridState {
+  sort: SortState | null;
+  filters: Record<string, ColumnFilter>;
+  search: string;
+  page: number;
+  /** Rows per page; `ALL_ROWS` shows everything in one scrolling page. */
+  pageSize: number;
+  /** Column IDs in display order; columns missing from it are appended. */
+  columnOrder: string[];
+  hiddenColumns: string[];
+  /** Nest variant rows under a subtotal row per product. */
+  groupByProduct: boolean;
+}
+
+export const ALL_ROWS = 0;
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 250, ALL_ROWS];
+
+export const DEFAULT_GRID_STATE: GridState = {
+  sort: null,
+  filters: {},
+  search: "",
+  page: 0,
+  pageSize: 50,
+  columnOrder: [],
+  hiddenColumns: [],
+  groupByProduct: false,
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined) =>
+  !!filter &&
+  (filter.type === "text" ? filter.query.trim() !== "" : filter.min !== null || filter.max !== null);
+
+function matchesFilter(value: CellValue, filter: ColumnFilter) {
+  if (filter.type === "text") {
+    return String(value ?? "").toLowerCase().includes(filter.query.trim().toLowerCase());
+  }
+  if (typeof value !== "number") return false;
+  return (filter.min === null || value >= filter.min) && (filter.max === null || value <= filter.max);
+}
+
+export function filterRows<T>(rows: T[], columns: GridColumn<T>[], state: GridState): T[] {
+  const active = columns.filter((column) => isFilterActive(state.filters[column.id]));
+  const search = state.search.trim().toLowerCase();
+  const searchable = columns.filter((column) => column.kind === "text");
+
+  if (active.length === 0 && !search) return rows;
+
+  return rows.filter(
+    (row) =>
+      active.every((column) => matchesFilter(column.value(row), state.filters[column.id])) &&
+      (!search || searchable.some((column) => String(column.value(row) ?? "").toLowerCase().includes(search)))
+  );
+}
+
+/** Blank values always sort last, whichever the direction. */
+export function sortRows<T>(rows: T[], columns: GridColumn<T>[], sort: SortState | null): T[] {
+  const column = sort && columns.find((candidate) => candidate.id === sort.columnId);
+  if (!column) return rows;
+
+  const factor = sort.direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = column.value(a);
+    const right = column.value(b);
+    if (left === null || left === "") return right === null || right === "" ? 0 : 1;
+    if (right === null || right === "") return -1;
+    if (typeof left === "number" && typeof right === "number") return (left - right) * factor;
+    return String(left).localeCompare(String(right), undefined, { numeric: true }) * factor;
+  });
+}
+
+/** Filtered and sorted rows across all pages; what exports should contain. */
+export const applyView = <T>(rows: T[], columns: GridColumn<T>[], state: GridState) =>
+  sortRows(filterRows(rows, columns, state), columns, state.sort);
+
+export function pageOf<T>(rows: T[], state: GridState) {
+  if (state.pageSize === ALL_ROWS) return { rows, page: 0, pageCount: 1 };
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / state.pageSize));
+  const page = Math.min(state.page, pageCount - 1);
+  return {
+    rows: rows.slice(page * state.pageSize, (page + 1) * state.pageSize),
+    page,
+    pageCount,
+  };
+}
+
+/** Generic over the column type so extra per-column fields (alignment, export fields) survive. */
+export function orderedColumns<C extends GridColumn<never>>(columns: C[], state: GridState): C[] {
+  const position = (id: string) => {
+    const index = state.columnOrder.indexOf(id);
+    return index === -1 ? state.columnOrder.length + columns.findIndex((column) => column.id === id) : index;
+  };
+  return [...columns].sort((a, b) => position(a.id) - position(b.id));
+}
+
+export const visibleColumns = <C extends GridColumn<never>>(columns: C[], state: GridState) =>
+  orderedColumns(columns, state).filter((column) => !state.hiddenColumns.includes(column.id));
+
+/** Cycles a column through ascending, descending and unsorted. */
+export function toggleSort(sort: SortState | null, columnId: string): SortState | null {
+  if (sort?.columnId !== columnId) return { columnId, direction: "asc" };
+  return sort.direction === "asc" ? { columnId, direction: "desc" } : null;
+}
+
+/** Moves a column one step left (-1) or right (+1) within the current order. */
+export function moveColumn<T>(columns: GridColumn<T>[], state: GridState, columnId: string, offset: -1 | 1): string[] {
+  const order = orderedColumns(columns, state).map((column) => column.id);
+  const from = order.indexOf(columnId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= order.length) return order;
+
+  [order[from], order[to]] = [order[to], order[from]];
+  return order;
+}
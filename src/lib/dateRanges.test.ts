@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { FiscalCalendar } from "@/lib/fiscalCalendar";
+import {
+  formatIsoDate,
+  parseDateRangeExpression,
+  resolveDateRangeExpression,
+  type ResolveOptions,
+} from "./dateRanges";
+
+const resolve = (value: string, options: ResolveOptions) => {
+  const range = resolveDateRangeExpression(value, options);
+  return range && [formatIsoDate(range.start), formatIsoDate(range.end)];
+};
+
+const at = (instant: string, timeZone = "UTC"): ResolveOptions => ({ now: new Date(instant), timeZone });
+
+describe("parseDateRangeExpression", () => {
+  it("reads presets, relative and absolute ranges", () => {
+    expect(parseDateRangeExpression("  Month  to date ")).toEqual({ type: "preset", preset: "month to date" });
+    expect(parseDateRangeExpression("last 1 week")).toEqual({ type: "relative", amount: 1, unit: "week" });
+    expect(parseDateRangeExpression("2024-01-01..2024-03-31")).toEqual({
+      type: "absolute",
+      start: "2024-01-01",
+      end: "2024-03-31",
+    });
+  });
+
+  it("rejects unknown text, zero amounts and impossible dates", () => {
+    expect(parseDateRangeExpression("next week")).toBeNull();
+    expect(parseDateRangeExpression("last 0 days")).toBeNull();
+    expect(parseDateRangeExpression("2024-02-30..2024-03-01")).toBeNull();
+  });
+});
+
+describe("resolveDateRangeExpression", () => {
+  it("ends relative ranges today, inclusive", () => {
+    expect(resolve("last 7 days", at("2024-03-15T12:00:00Z"))).toEqual(["2024-03-09", "2024-03-15"]);
+    expect(resolve("last 1 month", at("2024-03-31T12:00:00Z"))).toEqual(["2024-03-01", "2024-03-31"]);
+  });
+
+  it("crosses year boundaries", () => {
+    expect(resolve("last month", at("2024-01-15T12:00:00Z"))).toEqual(["2023-12-01", "2023-12-31"]);
+    expect(resolve("last year", at("2024-01-01T00:00:00Z"))).toEqual(["2023-01-01", "2023-12-31"]);
+    expect(resolve("year to date", at("2024-12-31T23:59:00Z"))).toEqual(["2024-01-01", "2024-12-31"]);
+  });
+
+  it("starts quarter to date on the quarter's first day", () => {
+    expect(resolve("quarter to date", at("2024-03-31T12:00:00Z"))).toEqual(["2024-01-01", "2024-03-31"]);
+    expect(resolve("quarter to date", at("2024-04-01T12:00:00Z"))).toEqual(["2024-04-01", "2024-04-01"]);
+  });
+
+  it("resolves 'today' in the store's time zone", () => {
+    // Still March 31st in UTC, already the new quarter and the next day in Tokyo
+    expect(resolve("quarter to date", at("2024-03-31T16:00:00Z", "Asia/Tokyo"))).toEqual([
+      "2024-04-01",
+      "2024-04-01",
+    ]);
+    expect(resolve("year to date", at("2024-12-31T15:30:00Z", "Asia/Tokyo"))).toEqual(["2025-01-01", "2025-01-01"]);
+  });
+
+  it("counts days across a DST change in the store's time zone", () => {
+    // 23:30 on 2024-03-10 in New York, the day clocks went forward
+    expect(resolve("last 7 days", at("2024-03-11T03:30:00Z", "America/New_York"))).toEqual([
+      "2024-03-04",
+      "2024-03-10",
+    ]);
+    expect(resolve("yesterday", at("2024-03-11T04:30:00Z", "America/New_York"))).toEqual([
+      "2024-03-10",
+      "2024-03-10",
+    ]);
+  });
+
+  it("leaves absolute ranges untouched", () => {
+    expect(resolve("2024-02-01..2024-02-29", at("2025-06-01T00:00:00Z"))).toEqual(["2024-02-01", "2024-02-29"]);
+  });
+
+  it("returns null for invalid expressions", () => {
+    expect(resolveDateRangeExpression("sometime")).toBeNull();
+  });
+
+  describe("with a fiscal calendar", () => {
+    const retail: FiscalCalendar = { startMonth: 2, pattern: "4-4-5", weekStartsOn: 0 };
+    const fiscal = (instant: string): ResolveOptions => ({ ...at(instant), fiscalCalendar: retail });
+
+    it("follows fiscal periods for month, quarter and year presets", () => {
+      expect(resolve("month to date", fiscal("2024-03-01T12:00:00Z"))).toEqual(["2024-02-25", "2024-03-01"]);
+      expect(resolve("last month", fiscal("2024-03-01T12:00:00Z"))).toEqual(["2024-01-28", "2024-02-24"]);
+      expect(resolve("quarter to date", fiscal("2024-05-01T12:00:00Z"))).toEqual(["2024-04-28", "2024-05-01"]);
+      expect(resolve("year to date", fiscal("2024-05-01T12:00:00Z"))).toEqual(["2024-01-28", "2024-05-01"]);
+    });
+
+    it("rolls over at the mid-January fiscal year start", () => {
+      expect(resolve("last year", fiscal("2025-01-26T12:00:00Z"))).toEqual(["2024-01-28", "2025-01-25"]);
+      expect(resolve("year to date", fiscal("2025-01-25T12:00:00Z"))).toEqual(["2024-01-28", "2025-01-25"]);
+    });
+
+    it("leaves day-based presets alone", () => {
+      expect(resolve("yesterday", fiscal("2024-03-01T12:00:00Z"))).toEqual(["2024-02-29", "2024-02-29"]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  addDays,
+  endOfMonth,
+  endOfYear,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subWeeks,
+  subYears,
+} from "date-fns";
+import {
+  fiscalPeriodOf,
+  fiscalQuarterOf,
+  fiscalYearOf,
+  type FiscalCalendar,
+} from "@/lib/fiscalCalendar";
+import { todayInTimeZone } from "@/lib/timeZone";
+
+/**
+ * Date ranges are stored as expressions ("last 30 days", "month to date",
+ * "2025-01-01..2025-03-31") and only resolved to concrete dates when a query
+ * runs, so a saved or shared query keeps tracking the current date.
+ */
+
+export const NAMED_PRESETS = [
+  "today",
+  "yesterday",
+  "month to date",
+  "last month",
+  "quarter to date",
+  "year to date",
+  "last year",
+] as const;
+
+export type NamedPreset = (typeof NAMED_PRESETS)[number];
+
+export type RelativeUnit = "day" | "week" | "month";
+
+export type DateRangeExpression =
+  | { type: "preset"; preset: NamedPreset }
+  | { type: "relative"; amount: number; unit: RelativeUnit }
+  | { type: "absolute"; start: string; end: string };
+
+export interface ResolvedDateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ResolveOptions {
+  now?: Date;
+  /** Store time zone; "today" is the current day there. Defaults to the browser's zone. */
+  timeZone?: string;
+  /** When set, month, quarter and year presets follow fiscal periods. */
+  fiscalCalendar?: FiscalCalendar | null;
+}
+
+/** Options shown in the range picker, in display order. */
+export const DATE_RANGE_PRESETS: { label: string; expression: string }[] = [
+  { label: "Today", expression: "today" },
+  { label: "Yesterday", expression: "yesterday" },
+  { label: "Last 7 days", expression: "last 7 days" },
+  { label: "Last 30 days", expression: "last 30 days" },
+  { label: "Last 90 days", expression: "last 90 days" },
+  { label: "Month to date", expression: "month to date" },
+  { label: "Last month", expression: "last month" },
+  { label: "Quarter to date", expression: "quarter to date" },
+  { label: "Year to date", expression: "year to date" },
+  { label: "Last year", expression: "last year" },
+];
+
+export const DEFAULT_DATE_RANGE = "last 90 days";
+
+const ISO_DATE = "yyyy-MM-dd";
+const RELATIVE_PATTERN = /^last\s+(\d+)\s+(day|week|month)s?$/;
+const ABSOLUTE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+export const parseIsoDate = (value: string) => parse(value, ISO_DATE, new Date());
+
+export const formatIsoDate = (date: Date) => format(date, ISO_DATE);
+
+/** Returns `null` for strings that aren't a recognised expression. */
+export function parseDateRangeExpression(value: string): DateRangeExpression | null {
+  const text = value.trim().toLowerCase().replace(/\s+/g, " ");
+
+  if ((NAMED_PRESETS as readonly string[]).includes(text)) {
+    return { type: "preset", preset: text as NamedPreset };
+  }
+
+  const relative = RELATIVE_PATTERN.exec(text);
+  if (relative) {
+    const amount = Number(relative[1]);
+    return amount > 0 ? { type: "relative", amount, unit: relative[2] as RelativeUnit } : null;
+  }
+
+  const absolute = ABSOLUTE_PATTERN.exec(text);
+  if (absolute && isValid(parseIsoDate(absolute[1])) && isValid(parseIsoDate(absolute[2]))) {
+    return { type: "absolute", start: absolute[1], end: absolute[2] };
+  }
+
+  return null;
+}
+
+export function formatDateRangeExpression(expression: DateRangeExpression): string {
+  switch (expression.type) {
+    case "preset":
+      return expression.preset;
+    case "relative":
+      return `last ${expression.amount} ${expression.unit}${expression.amount === 1 ? "" : "s"}`;
+    case "absolute":
+      return `${expression.start}..${expression.end}`;
+  }
+}
+
+export const absoluteRange = (start: Date, end: Date) =>
+  formatDateRangeExpression({ type: "absolute", start: formatIsoDate(start), end: formatIsoDate(end) });
+
+/**
+ * Resolves an expression to inclusive start/end days. "Last N days" ends today
+ * and includes it, so "last 7 days" covers today and the six days before.
+ */
+export function resolveDateRange(
+  expression: DateRangeExpression,
+  { now = new Date(), timeZone, fiscalCalendar }: ResolveOptions = {}
+): ResolvedDateRange {
+  const today = timeZone ? todayInTimeZone(timeZone, now) : startOfDay(now);
+
+  if (fiscalCalendar && expression.type === "preset") {
+    const fiscal = resolveFiscalPreset(expression.preset, today, fiscalCalendar);
+    if (fiscal) return fiscal;
+  }
+
+  switch (expression.type) {
+    case "absolute":
+      return { start: parseIsoDate(expression.start), end: parseIsoDate(expression.end) };
+    case "relative": {
+      const subtract = { day: subDays, week: subWeeks, month: subMonths }[expression.unit];
+      return { start: addDays(subtract(today, expression.amount), 1), end: today };
+    }
+    case "preset":
+      switch (expression.preset) {
+        case "today":
+          return { start: today, end: today };
+        case "yesterday":
+          return { start: subDays(today, 1), end: subDays(today, 1) };
+        case "month to date":
+          return { start: startOfMonth(today), end: today };
+        case "last month": {
+          const lastMonth = subMonths(today, 1);
+          return { start: startOfMonth(lastMonth), end: startOfDay(endOfMonth(lastMonth)) };
+        }
+        case "quarter to date":
+          return { start: startOfQuarter(today), end: today };
+        case "year to date":
+          return { start: startOfYear(today), end: today };
+        case "last year": {
+          const lastYear = subYears(today, 1);
+          return { start: startOfYear(lastYear), end: startOfDay(endOfYear(lastYear)) };
+        }
+      }
+  }
+}
+
+function resolveFiscalPreset(
+  preset: NamedPreset,
+  today: Date,
+  calendar: FiscalCalendar
+): ResolvedDateRange | null {
+  switch (preset) {
+    case "month to date":
+      return { start: fiscalPeriodOf(today, calendar).start, end: today };
+    case "last month":
+      return fiscalPeriodOf(subDays(fiscalPeriodOf(today, calendar).start, 1), calendar);
+    case "quarter to date":
+      return { start: fiscalQuarterOf(today, calendar).start, end: today };
+    case "year to date":
+      return { start: fiscalYearOf(today, calendar).start, end: today };
+    case "last year":
+      return fiscalYearOf(subDays(fiscalYearOf(today, calendar).start, 1), calendar);
+    default:
+      return null;
+  }
+}
+
+/** Parses and resolves in one step; `null` when the expression is invalid. */
+export function resolveDateRangeExpression(value: string, options?: ResolveOptions) {
+  const expression = parseDateRangeExpression(value);
+  return expression ? resolveDateRange(expression, options) : null;
+}
+
+export function describeDateRange(value: string, options?: ResolveOptions): string {
+  const preset = DATE_RANGE_PRESETS.find((option) => option.expression === value);
+  if (preset) return preset.label;
+
+  const expression = parseDateRangeExpression(value);
+  if (!expression) return value;
+  if (expression.type === "absolute") {
+    const { start, end } = resolveDateRange(expression, options);
+    return `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+  }
+
+  const text = formatDateRangeExpression(expression);
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { DEFAULT_EXPORT_OPTIONS, renderExport, typedRows, type ExportOptions, type ExportTable } from "./exportEngine";
+
+const table: ExportTable = {
+  headers: ["Product", "Items", "Net Sales", "Change"],
+  formats: ["text", "integer", "money", "percent"],
+  rows: [
+    ['Tee, "classic"', 1200, 1234.5678, 12.345],
+    ["Cap", 3, 0.1, null],
+  ],
+};
+
+const render = (options: Partial<ExportOptions>) =>
+  renderExport(table, { ...DEFAULT_EXPORT_OPTIONS, ...options }, { basename: "export" });
+
+describe("renderExport", () => {
+  it("quotes every field and rounds by default, as the original CSV download did", async () => {
+    const file = await render({});
+
+    expect(file.filename).toBe("export.csv");
+    expect(file.content).toBe(
+      [
+        '"Product","Items","Net Sales","Change"',
+        '"Tee, ""classic""","1200","1234.57","12.3"',
+        '"Cap","3","0.10",""',
+      ].join("\n")
+    );
+  });
+
+  it("follows the delimiter, quoting, decimal separator and BOM options", async () => {
+    const file = await render({ delimiter: ";", quoting: "minimal", decimalSeparator: ",", bom: true });
+
+    expect(file.content).toBe(
+      ["\uFEFFProduct;Items;Net Sales;Change", '"Tee, ""classic""";1200;1234,57;12,3', "Cap;3;0,10;"].join("\n")
+    );
+  });
+
+  it("keeps full precision when asked", async () => {
+    const file = await render({ format: "tsv", quoting: "minimal", decimals: "full" });
+
+    expect(file.filename).toBe("export.tsv");
+    expect(String(file.content).split("\n")[1]).toBe('"Tee, ""classic"""\t1200\t1234.5678\t12.345');
+  });
+
+  it("writes JSON records with numbers kept as numbers", async () => {
+    const file = await render({ format: "ndjson", decimalSeparator: "," });
+
+    expect(String(file.content).split("\n").map((line) => JSON.parse(line))).toEqual([
+      { "Product": 'Tee, "classic"', "Items": 1200, "Net Sales": 1234.57, "Change": 12.3 },
+      { "Product": "Cap", "Items": 3, "Net Sales": 0.1, "Change": null },
+    ]);
+  });
+
+  it("writes typed XLSX cells with number formats and a summary sheet", async () => {
+    const file = await renderExport(
+      table,
+      { ...DEFAULT_EXPORT_OPTIONS, format: "xlsx" },
+      { basename: "export", summary: [{ label: "Net Sales", value: 1234.67 }] }
+    );
+
+    const workbook = XLSX.read(file.content as ArrayBuffer, { type: "array", cellNF: true });
+    const sheet = workbook.Sheets.Results;
+    expect(workbook.SheetNames).toEqual(["Results", "Summary"]);
+    expect(sheet.A2).toMatchObject({ t: "s", v: 'Tee, "classic"' });
+    expect(sheet.B2).toMatchObject({ t: "n", v: 1200, z: "#,##0" });
+    expect(sheet.C2).toMatchObject({ t: "n", v: 1234.57, z: "#,##0.00" });
+    expect(sheet.D2).toMatchObject({ t: "n", v: 12.3, z: '0.0"%"' });
+    expect(sheet.D3).toBeUndefined();
+    expect(workbook.Sheets.Summary.B1).toMatchObject({ t: "n", v: 1234.67 });
+  });
+});
+
+describe("typedRows", () => {
+  it("rounds numbers by field format and turns missing values into null", () => {
+    expect(typedRows(table, DEFAULT_EXPORT_OPTIONS)).toEqual([
+      ['Tee, "classic"', 1200, 1234.57, 12.3],
+      ["Cap", 3, 0.1, null],
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { toDelimited, type CsvValue } from "@/lib/csv";
+import type { SortState } from "@/lib/dataGrid";
+import { groupByProduct, groupedExport } from "@/lib/productGroups";
+import {
+  exportFormats,
+  exportHeaders,
+  exportRow,
+  type ResultColumn,
+  type ResultRow,
+} from "@/lib/resultColumns";
+
+/**
+ * Turns a table of raw values into a file or clipboard text. Values stay
+ * unformatted until the last step so typed targets (XLSX, JSON) keep real
+ * numbers and text targets can follow the user's number conventions.
+ */
+export type ExportFormat = "csv" | "tsv" | "xlsx" | "json" | "ndjson";
+
+export type FieldFormat = "text" | "integer" | "money" | "percent";
+
+export interface ExportTable {
+  headers: string[];
+  formats: FieldFormat[];
+  rows: CsvValue[][];
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** CSV only; TSV and the clipboard always use tabs. */
+  delimiter: "," | ";" | "|";
+  /** Byte order mark, so Excel opens UTF-8 text files with the right encoding. */
+  bom: boolean;
+  quoting: "all" | "minimal";
+  /** "fixed" rounds money to 2 and percentages to 1 decimal place; "full" keeps full precision. */
+  decimals: "fixed" | "full";
+  /** For text targets; XLSX and JSON always carry plain numbers. */
+  decimalSeparator: "." | ",";
+}
+
+/** Matches what "Download CSV" has always produced. */
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "csv",
+  delimiter: ",",
+  bom: false,
+  quoting: "all",
+  decimals: "fixed",
+  decimalSeparator: ".",
+};
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8;" },
+  { value: "tsv", label: "TSV", extension: "tsv", mimeType: "text/tab-separated-values;charset=utf-8;" },
+  {
+    value: "xlsx",
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  { value: "json", label: "JSON", extension: "json", mimeType: "application/json;charset=utf-8;" },
+  { value: "ndjson", label: "NDJSON", extension: "ndjson", mimeType: "application/x-ndjson;charset=utf-8;" },
+];
+
+/** Result rows as an export table; grouped tables get a subtotal line per product. */
+export function buildResultTable(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  grouping: { grouped: boolean; sort: SortState | null }
+): ExportTable {
+  if (grouping.grouped) {
+    const { headers, rows: groupedRows } = groupedExport(columns, groupByProduct(rows, grouping.sort));
+    return { headers, formats: ["text", ...exportFormats(columns)], rows: groupedRows };
+  }
+  return {
+    headers: exportHeaders(columns),
+    formats: exportFormats(columns),
+    rows: rows.map((row) => exportRow(columns, row)),
+  };
+}
+
+const DECIMALS: Partial<Record<FieldFormat, number>> = { money: 2, percent: 1 };
+
+function roundValue(value: number, format: FieldFormat, options: ExportOptions) {
+  const digits = DECIMALS[format];
+  return options.decimals === "fixed" && digits !== undefined ? Number(value.toFixed(digits)) : value;
+}
+
+function formatValue(value: CsvValue, format: FieldFormat, options: ExportOptions): CsvValue {
+  if (typeof value !== "number") return value;
+  const digits = DECIMALS[format];
+  const text = options.decimals === "fixed" && digits !== undefined ? value.toFixed(digits) : String(value);
+  return options.decimalSeparator === "," ? text.replace(".", ",") : text;
+}
+
+const textRows = (table: ExportTable, options: ExportOptions) =>
+  table.rows.map((row) => row.map((value, index) => formatValue(value, table.formats[index], options)));
+
+function delimitedText(table: ExportTable, options: ExportOptions, delimiter: string) {
+  const text = toDelimited(table.headers, textRows(table, options), { delimiter, quoting: options.quoting });
+  return options.bom ? `\uFEFF${text}` : text;
+}
+
+/** One object per row keyed by header, with numbers kept as numbers. */
+function jsonRecords(table: ExportTable, options: ExportOptions) {
+  return table.rows.map((row) =>
+    Object.fromEntries(
+      table.headers.map((header, index) => {
+        const value = row[index];
+        return [
+          header,
+          typeof value === "number" ? roundValue(value, table.formats[index], options) : value ?? null,
+        ];
+      })
+    )
+  );
+}
+
+const XLSX_NUMBER_FORMATS: Partial<Record<FieldFormat, string>> = {
+  integer: "#,##0",
+  money: "#,##0.00",
+  percent: '0.0"%"',
+};
+
+/** Rows with numbers kept as numbers, for typed targets like XLSX and Google Sheets. */
+export const typedRows = (table: ExportTable, options: ExportOptions) =>
+  table.rows.map((row) =>
+    row.map((value, index) =>
+      typeof value === "number" ? roundValue(value, table.formats[index], options) : value ?? null
+    )
+  );
+
+async function xlsxWorkbook(table: ExportTable, options: ExportOptions, summary: ExportSummaryItem[]) {
+  // SheetJS is large and only needed here, so it's loaded on first export
+  const XLSX = await import("xlsx");
+  const rows = typedRows(table, options);
+  const sheet = XLSX.utils.aoa_to_sheet([table.headers, ...rows]);
+
+  // Typed numeric cells with display formats, so totals and sorting work without conversion
+  rows.forEach((row, rowIndex) =>
+    row.forEach((value, columnIndex) => {
+      const numberFormat = XLSX_NUMBER_FORMATS[table.formats[columnIndex]];
+      const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })];
+      if (cell && typeof value === "number" && numberFormat) cell.z = numberFormat;
+    })
+  );
+  sheet["!cols"] = table.headers.map((header) => ({ wch: Math.max(12, header.length + 2) }));
+  sheet["!autofilter"] = {
+    ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: table.headers.length - 1 } }),
+  };
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Results");
+  if (summary.length > 0) {
+    const summarySheet = XLSX.utils.aoa_to_sheet(summary.map((item) => [item.label, item.value]));
+    summarySheet["!cols"] = [{ wch: 24 }, { wch: 24 }];
+    XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+  }
+
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+export interface ExportSummaryItem {
+  label: string;
+  value: string | number;
+}
+
+export interface ExportFile {
+  content: BlobPart;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Renders a table in the chosen format. `summary` becomes a second sheet in
+ * XLSX files and is ignored by the flat formats.
+ */
+export async function renderExport(
+  table: ExportTable,
+  options: ExportOptions,
+  { basename, summary = [] }: { basename: string; summary?: ExportSummaryItem[] }
+): Promise<ExportFile> {
+  const format = EXPORT_FORMATS.find((candidate) => candidate.value === options.format) ?? EXPORT_FORMATS[0];
+  const filename = `${basename}.${format.extension}`;
+
+  switch (options.format) {
+    case "xlsx":
+      return { content: await xlsxWorkbook(table, options, summary), filename, mimeType: format.mimeType };
+    case "json":
+      return { content: JSON.stringify(jsonRecords(table, options), null, 2), filename, mimeType: format.mimeType };
+    case "ndjson":
+      return {
+        content: jsonRecords(table, options)
+          .map((record) => JSON.stringify(record))
+          .join("\n"),
+        filename,
+        mimeType: format.mimeType,
+      };
+    case "tsv":
+      return { content: delimitedText(table, options, "\t"), filename, mimeType: format.mimeType };
+    default:
+      return { content: delimitedText(table, options, options.delimiter), filename, mimeType: format.mimeType };
+  }
+}
+
+/**
+ * Tab-separated text for pasting into a spreadsheet. No BOM, and only fields
+ * that need it are quoted, since spreadsheets keep literal quotes on paste.
+ */
+export async function copyTableToClipboard(table: ExportTable, options: ExportOptions) {
+  if (!navigator.clipboard) throw new Error("Clipboard access isn't available in this browser");
+  await navigator.clipboard.writeText(delimitedText(table, { ...options, bom: false, quoting: "minimal" }, "\t"));
+}
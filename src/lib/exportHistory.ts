@@ -0,0 +1,106 @@
+import { clear, createStore, del, set, values } from "idb-keyval";
+import type { ProductSalesParams, ProductSalesRow, ProductScope } from "@/lib/api";
+import type { ComparisonMode } from "@/lib/comparison";
+import { summarizeSales } from "@/lib/salesSummary";
+import type { Breakdown } from "@/lib/timeSeries";
+
+/**
+ * Local log of every file export and Google Sheets update, kept in its own
+ * IndexedDB database so clearing it never touches cached results or an
+ * unfinished query. Each entry keeps the payload it produced so it can be
+ * downloaded again.
+ */
+const store = createStore("analytics-dashboard-history", "entries");
+
+/** Older entries are pruned; payloads can be large. */
+export const MAX_HISTORY_ENTRIES = 100;
+
+export type HistoryKind = "export" | "sheet";
+
+/**
+ * The query a result came from, enough to run it again. Re-runs start from the
+ * form input, so scopes pick up new products and relative ranges roll forward;
+ * `params` records what the input resolved to at the time.
+ */
+export interface HistoryQuery {
+  /** Raw Product IDs field, before handles and SKUs were looked up. */
+  productInput: string;
+  scope: ProductScope | null;
+  /** Date range expression as entered, e.g. "last 30 days". */
+  dateRange: string;
+  params: ProductSalesParams;
+  breakdown: Breakdown | null;
+  comparison: ComparisonMode;
+}
+
+export interface HistoryPayload {
+  content: Blob;
+  filename: string;
+  mimeType: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  kind: HistoryKind;
+  /** Human-readable target, e.g. "CSV" or `"Sheet1" in 1AbC…`. */
+  destination: string;
+  query: HistoryQuery | null;
+  rowCount: number;
+  totals: { netItemsSold: number; netSales: number };
+  status: "success" | "error";
+  error?: string;
+  /** What was downloaded or sent; for sheet updates, the request body as JSON. */
+  payload: HistoryPayload | null;
+}
+
+export function historyTotals(rows: ProductSalesRow[]): HistoryEntry["totals"] {
+  const summary = summarizeSales(rows);
+  return { netItemsSold: summary.totalItemsSold, netSales: summary.totalSales };
+}
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Newest first. */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const entries = await values<HistoryEntry>(store);
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Records an export or sheet update. History is best-effort: a failure to
+ * write it is logged and never fails the export itself.
+ */
+export async function recordHistory(entry: Omit<HistoryEntry, "id" | "createdAt">) {
+  try {
+    const id = crypto.randomUUID();
+    await set(id, { ...entry, id, createdAt: new Date().toISOString() }, store);
+
+    const entries = await loadHistory();
+    await Promise.all(entries.slice(MAX_HISTORY_ENTRIES).map((stale) => del(stale.id, store)));
+    notify();
+  } catch (error) {
+    console.error("Could not record export history:", error);
+  }
+}
+
+export async function deleteHistoryEntry(id: string) {
+  await del(id, store);
+  notify();
+}
+
+export async function clearHistory() {
+  await clear(store);
+  notify();
+}
+
+export function subscribeHistory(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const describeHistoryQuery = (query: HistoryQuery) =>
+  `${query.params.productIds.length} product(s), ${query.params.startDate} to ${query.params.endDate}`;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { formatIsoDate, parseIsoDate } from "@/lib/dateRanges";
+import {
+  fiscalPeriodOf,
+  fiscalPeriodsOf,
+  fiscalQuarterOf,
+  fiscalYearOf,
+  fiscalYearShiftDays,
+  type FiscalCalendar,
+  type FiscalPeriod,
+} from "./fiscalCalendar";
+
+const day = parseIsoDate;
+const iso = ({ start, end }: FiscalPeriod) => [formatIsoDate(start), formatIsoDate(end)];
+
+/** Retail calendar starting on the Sunday on or before February 1st. */
+const retail: FiscalCalendar = { startMonth: 2, pattern: "4-5-4", weekStartsOn: 0 };
+const julyMonths: FiscalCalendar = { startMonth: 7, pattern: "months", weekStartsOn: 1 };
+
+describe("fiscalYearOf", () => {
+  it("shifts calendar-month years to the start month", () => {
+    expect(iso(fiscalYearOf(day("2024-06-30"), julyMonths))).toEqual(["2023-07-01", "2024-06-30"]);
+    expect(iso(fiscalYearOf(day("2024-07-01"), julyMonths))).toEqual(["2024-07-01", "2025-06-30"]);
+  });
+
+  it("starts week-based years on the week day before the 1st, mid-month in the previous month", () => {
+    expect(iso(fiscalYearOf(day("2025-01-25"), retail))).toEqual(["2024-01-28", "2025-01-25"]);
+    expect(iso(fiscalYearOf(day("2025-01-26"), retail))).toEqual(["2025-01-26", "2026-01-31"]);
+  });
+});
+
+describe("fiscalPeriodsOf", () => {
+  it("follows the week pattern", () => {
+    const periods = fiscalPeriodsOf(day("2024-06-01"), retail).map(iso);
+
+    expect(periods).toHaveLength(12);
+    expect(periods.slice(0, 3)).toEqual([
+      ["2024-01-28", "2024-02-24"],
+      ["2024-02-25", "2024-03-30"],
+      ["2024-03-31", "2024-04-27"],
+    ]);
+    expect(periods[11]).toEqual(["2024-12-29", "2025-01-25"]);
+  });
+
+  it("adds the 53rd week to the last period", () => {
+    const periods = fiscalPeriodsOf(day("2025-06-01"), retail).map(iso);
+
+    expect(periods[11]).toEqual(["2025-12-28", "2026-01-31"]);
+  });
+});
+
+describe("fiscalPeriodOf and fiscalQuarterOf", () => {
+  it("switch over at the period boundary", () => {
+    expect(iso(fiscalPeriodOf(day("2024-02-24"), retail))).toEqual(["2024-01-28", "2024-02-24"]);
+    expect(iso(fiscalPeriodOf(day("2024-02-25"), retail))).toEqual(["2024-02-25", "2024-03-30"]);
+  });
+
+  it("switch over at the quarter boundary", () => {
+    expect(iso(fiscalQuarterOf(day("2024-09-30"), julyMonths))).toEqual(["2024-07-01", "2024-09-30"]);
+    expect(iso(fiscalQuarterOf(day("2024-10-01"), julyMonths))).toEqual(["2024-10-01", "2024-12-31"]);
+    expect(iso(fiscalQuarterOf(day("2024-04-27"), retail))).toEqual(["2024-01-28", "2024-04-27"]);
+    expect(iso(fiscalQuarterOf(day("2024-04-28"), retail))).toEqual(["2024-04-28", "2024-07-27"]);
+  });
+
+  it("puts the 53rd week in the last period and quarter", () => {
+    expect(iso(fiscalPeriodOf(day("2026-01-30"), retail))).toEqual(["2025-12-28", "2026-01-31"]);
+    expect(iso(fiscalQuarterOf(day("2026-01-30"), retail))).toEqual(["2025-10-26", "2026-01-31"]);
+  });
+});
+
+describe("fiscalYearShiftDays", () => {
+  it("shifts retail calendars by whole weeks only", () => {
+    expect(fiscalYearShiftDays(retail)).toBe(364);
+    expect(fiscalYearShiftDays(julyMonths)).toBeNull();
+    expect(fiscalYearShiftDays(null)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarWeeks, startOfDay, startOfWeek } from "date-fns";
+import { z } from "zod";
+
+/**
+ * A fiscal calendar is either calendar months shifted to a custom year start,
+ * or a retail week pattern (4-4-5 and friends) where every period is a whole
+ * number of weeks. Week-based years start on the `weekStartsOn` day on or
+ * before the 1st of `startMonth`; the occasional 53rd week is added to the
+ * last period.
+ */
+export const fiscalCalendarSchema = z.object({
+  /** 1 = January. */
+  startMonth: z.number().int().min(1).max(12),
+  pattern: z.enum(["months", "4-4-5", "4-5-4", "5-4-4"]),
+  /** 0 = Sunday … 6 = Saturday. */
+  weekStartsOn: z.union([
+    z.literal(0),
+    z.literal(1),
+    z.literal(2),
+    z.literal(3),
+    z.literal(4),
+    z.literal(5),
+    z.literal(6),
+  ]),
+});
+
+export type FiscalCalendar = z.infer<typeof fiscalCalendarSchema>;
+
+export const FISCAL_PATTERNS: { value: FiscalCalendar["pattern"]; label: string }[] = [
+  { value: "months", label: "Calendar months" },
+  { value: "4-4-5", label: "4-4-5 weeks" },
+  { value: "4-5-4", label: "4-5-4 weeks" },
+  { value: "5-4-4", label: "5-4-4 weeks" },
+];
+
+export interface FiscalPeriod {
+  start: Date;
+  /** Inclusive last day. */
+  end: Date;
+}
+
+const isWeekBased = (calendar: FiscalCalendar) => calendar.pattern !== "months";
+
+const weeksPerPeriod = (calendar: FiscalCalendar) =>
+  calendar.pattern.split("-").map(Number) as [number, number, number];
+
+/** Start of the fiscal year whose nominal start falls in `year`. */
+function yearStartFor(year: number, calendar: FiscalCalendar): Date {
+  const nominal = new Date(year, calendar.startMonth - 1, 1);
+  return isWeekBased(calendar) ? startOfWeek(nominal, { weekStartsOn: calendar.weekStartsOn }) : nominal;
+}
+
+export function fiscalYearOf(date: Date, calendar: FiscalCalendar): FiscalPeriod {
+  const day = startOfDay(date);
+  let year = day.getFullYear() + 1;
+  while (yearStartFor(year, calendar) > day) year--;
+
+  return { start: yearStartFor(year, calendar), end: addDays(yearStartFor(year + 1, calendar), -1) };
+}
+
+/** The twelve periods ("fiscal months") of the year containing `date`. */
+export function fiscalPeriodsOf(date: Date, calendar: FiscalCalendar): FiscalPeriod[] {
+  const year = fiscalYearOf(date, calendar);
+
+  if (!isWeekBased(calendar)) {
+    return Array.from({ length: 12 }, (_, i) => ({
+      start: addMonths(year.start, i),
+      end: addDays(addMonths(year.start, i + 1), -1),
+    }));
+  }
+
+  const pattern = weeksPerPeriod(calendar);
+  const periods: FiscalPeriod[] = [];
+  let start = year.start;
+  for (let i = 0; i < 12; i++) {
+    const next = addWeeks(start, pattern[i % 3]);
+    periods.push({ start, end: addDays(next, -1) });
+    start = next;
+  }
+
+  // 53-week years: the extra week belongs to the final period
+  const totalWeeks = differenceInCalendarWeeks(addDays(year.end, 1), year.start, {
+    weekStartsOn: calendar.weekStartsOn,
+  });
+  if (totalWeeks > 52) periods[11] = { ...periods[11], end: year.end };
+
+  return periods;
+}
+
+export function fiscalPeriodOf(date: Date, calendar: FiscalCalendar): FiscalPeriod {
+  const day = startOfDay(date);
+  const periods = fiscalPeriodsOf(day, calendar);
+  return periods.find((period) => period.start <= day && day <= period.end) ?? periods[periods.length - 1];
+}
+
+export function fiscalQuarterOf(date: Date, calendar: FiscalCalendar): FiscalPeriod {
+  const day = startOfDay(date);
+  const periods = fiscalPeriodsOf(day, calendar);
+  const index = periods.findIndex((period) => period.start <= day && day <= period.end);
+  const first = Math.floor(Math.max(index, 0) / 3) * 3;
+  return { start: periods[first].start, end: periods[first + 2].end };
+}
+
+/** Shift used for "same period last year": whole weeks for retail calendars so weekdays line up. */
+export const fiscalYearShiftDays = (calendar: FiscalCalendar | null) =>
+  calendar && isWeekBased(calendar) ? 364 : null;
@@ -0,0 +1,259 @@
+import type { ProductSalesRow } from "@/lib/api";
+import type { CsvValue } from "@/lib/csv";
+import type { FiscalCalendar } from "@/lib/fiscalCalendar";
+import { productKey } from "@/lib/salesSummary";
+import { bucketLabel, bucketOf, type Granularity } from "@/lib/timeSeries";
+import { sizeRank, variantOptionValue } from "@/lib/variantOptions";
+
+/**
+ * Cross-tabulates sales rows by any combination of dimensions. Cells keep raw
+ * sums so derived measures like average price stay correctly weighted in
+ * subtotals and totals.
+ */
+export type PivotDimensionId =
+  | "product"
+  | "variant"
+  | "sku"
+  | "vendor"
+  | "period"
+  | "size"
+  | "color"
+  | "material";
+
+export type PivotMeasureId = "netSales" | "netItemsSold" | "averagePrice";
+
+export interface PivotContext {
+  /** How `period` values are bucketed; rows without periods fall into one bucket. */
+  granularity: Granularity | null;
+  fiscalCalendar: FiscalCalendar | null;
+}
+
+interface PivotMember {
+  /** Groups rows; distinct from the label so same-titled products stay apart. */
+  key: string;
+  label: string;
+  /** Members sort by this rather than their label, e.g. periods chronologically. */
+  sortKey: string;
+}
+
+export interface PivotDimension {
+  id: PivotDimensionId;
+  label: string;
+  member: (row: ProductSalesRow, context: PivotContext) => PivotMember;
+}
+
+const NONE = "(none)";
+
+const textMember = (value: string | null | undefined): PivotMember => {
+  const label = value || NONE;
+  return { key: label, label, sortKey: label };
+};
+
+const optionDimension = (id: PivotDimensionId, name: string): PivotDimension => ({
+  id,
+  label: name,
+  member: (row) => {
+    const member = textMember(variantOptionValue(row, name));
+    if (name !== "Size") return member;
+    // Sizes read in wear order (S, M, L) rather than alphabetically
+    const rank = sizeRank(member.label);
+    return { ...member, sortKey: Number.isFinite(rank) ? String(rank * 1000).padStart(10, "0") : `~${member.label}` };
+  },
+});
+
+export const PIVOT_DIMENSIONS: PivotDimension[] = [
+  {
+    id: "product",
+    label: "Product",
+    member: (row) => ({ key: productKey(row), label: row.productTitle, sortKey: row.productTitle }),
+  },
+  {
+    id: "variant",
+    label: "Variant",
+    member: (row) => textMember(row.variantTitle),
+  },
+  { id: "sku", label: "SKU", member: (row) => textMember(row.sku) },
+  { id: "vendor", label: "Vendor", member: (row) => textMember(row.vendor) },
+  {
+    id: "period",
+    label: "Date",
+    member: (row, { granularity, fiscalCalendar }) => {
+      if (!row.period || !granularity) return { key: "", label: "Whole range", sortKey: "" };
+      const bucket = bucketOf(row.period, granularity, fiscalCalendar);
+      return { key: bucket, label: bucketLabel(bucket, granularity, fiscalCalendar), sortKey: bucket };
+    },
+  },
+  optionDimension("size", "Size"),
+  optionDimension("color", "Color"),
+  optionDimension("material", "Material"),
+];
+
+export interface PivotMeasure {
+  id: PivotMeasureId;
+  label: string;
+  format: "currency" | "count";
+  value: (totals: PivotTotals) => number | null;
+}
+
+export interface PivotTotals {
+  netSales: number;
+  netItemsSold: number;
+}
+
+export const PIVOT_MEASURES: PivotMeasure[] = [
+  { id: "netSales", label: "Net Sales", format: "currency", value: (totals) => totals.netSales },
+  { id: "netItemsSold", label: "Items Sold", format: "count", value: (totals) => totals.netItemsSold },
+  {
+    id: "averagePrice",
+    label: "Avg. Price",
+    format: "currency",
+    value: (totals) => (totals.netItemsSold !== 0 ? totals.netSales / totals.netItemsSold : null),
+  },
+];
+
+export interface PivotConfig {
+  rows: PivotDimensionId[];
+  columns: PivotDimensionId[];
+  measures: PivotMeasureId[];
+}
+
+export const DEFAULT_PIVOT_CONFIG: PivotConfig = {
+  rows: ["product"],
+  columns: [],
+  measures: ["netSales", "netItemsSold"],
+};
+
+/** One combination of members along an axis, e.g. a product and one of its variants. */
+export interface PivotHeader {
+  key: string;
+  labels: string[];
+}
+
+export interface PivotTable {
+  rowHeaders: PivotHeader[];
+  columnHeaders: PivotHeader[];
+  /** Keyed by `cellKey(rowKey, columnKey)`; empty combinations are absent. */
+  cells: Map<string, PivotTotals>;
+  rowTotals: Map<string, PivotTotals>;
+  columnTotals: Map<string, PivotTotals>;
+  grandTotal: PivotTotals;
+}
+
+const KEY_SEPARATOR = "\u0000";
+
+export const cellKey = (rowKey: string, columnKey: string) => `${rowKey}${KEY_SEPARATOR}${KEY_SEPARATOR}${columnKey}`;
+
+const dimensionById = new Map(PIVOT_DIMENSIONS.map((dimension) => [dimension.id, dimension]));
+
+function addTo(map: Map<string, PivotTotals>, key: string, row: ProductSalesRow) {
+  const totals = map.get(key);
+  if (totals) {
+    totals.netSales += row.netSales;
+    totals.netItemsSold += row.netItemsSold;
+  } else {
+    map.set(key, { netSales: row.netSales, netItemsSold: row.netItemsSold });
+  }
+}
+
+export function buildPivot(rows: ProductSalesRow[], config: PivotConfig, context: PivotContext): PivotTable {
+  const rowDimensions = config.rows.map((id) => dimensionById.get(id)).filter(Boolean);
+  const columnDimensions = config.columns.map((id) => dimensionById.get(id)).filter(Boolean);
+
+  const headersOf = (dimensions: PivotDimension[], row: ProductSalesRow) => {
+    const members = dimensions.map((dimension) => dimension.member(row, context));
+    return {
+      key: members.map((member) => member.key).join(KEY_SEPARATOR),
+      labels: members.map((member) => member.label),
+      sortKeys: members.map((member) => member.sortKey),
+    };
+  };
+
+  const rowHeaders = new Map<string, PivotHeader & { sortKeys: string[] }>();
+  const columnHeaders = new Map<string, PivotHeader & { sortKeys: string[] }>();
+  const cells = new Map<string, PivotTotals>();
+  const rowTotals = new Map<string, PivotTotals>();
+  const columnTotals = new Map<string, PivotTotals>();
+  const grandTotal: PivotTotals = { netSales: 0, netItemsSold: 0 };
+
+  rows.forEach((row) => {
+    const rowHeader = headersOf(rowDimensions, row);
+    const columnHeader = headersOf(columnDimensions, row);
+    if (!rowHeaders.has(rowHeader.key)) rowHeaders.set(rowHeader.key, rowHeader);
+    if (!columnHeaders.has(columnHeader.key)) columnHeaders.set(columnHeader.key, columnHeader);
+
+    addTo(cells, cellKey(rowHeader.key, columnHeader.key), row);
+    addTo(rowTotals, rowHeader.key, row);
+    addTo(columnTotals, columnHeader.key, row);
+    grandTotal.netSales += row.netSales;
+    grandTotal.netItemsSold += row.netItemsSold;
+  });
+
+  const sorted = (headers: Map<string, PivotHeader & { sortKeys: string[] }>) =>
+    Array.from(headers.values())
+      .sort((a, b) => {
+        for (let i = 0; i < a.sortKeys.length; i++) {
+          const order = a.sortKeys[i].localeCompare(b.sortKeys[i], undefined, { numeric: true });
+          if (order !== 0) return order;
+        }
+        return 0;
+      })
+      .map(({ key, labels }) => ({ key, labels }));
+
+  return {
+    rowHeaders: sorted(rowHeaders),
+    columnHeaders: sorted(columnHeaders),
+    cells,
+    rowTotals,
+    columnTotals,
+    grandTotal,
+  };
+}
+
+/** Selected measures in their canonical order, whatever order they were picked in. */
+export const selectedMeasures = (config: PivotConfig) =>
+  PIVOT_MEASURES.filter((measure) => config.measures.includes(measure.id));
+
+export const pivotDimensionLabel = (id: PivotDimensionId) => dimensionById.get(id)?.label ?? id;
+
+const exportValue = (measure: PivotMeasure, totals: PivotTotals | undefined) => {
+  const value = totals ? measure.value(totals) : null;
+  return value !== null && measure.format === "currency" ? value.toFixed(2) : value;
+};
+
+/**
+ * Flattens a pivot into one header row and plain numbers, the shape a
+ * spreadsheet re-pivots cleanly. Column members are joined into the header.
+ */
+export function pivotExport(pivot: PivotTable, config: PivotConfig) {
+  const measures = selectedMeasures(config);
+  const hasColumns = config.columns.length > 0;
+  const headers = [
+    ...config.rows.map(pivotDimensionLabel),
+    ...pivot.columnHeaders.flatMap((column) =>
+      measures.map((measure) => [...column.labels, measure.label].join(" / "))
+    ),
+    ...(hasColumns ? measures.map((measure) => `Total / ${measure.label}`) : []),
+  ];
+
+  const rows: CsvValue[][] = pivot.rowHeaders.map((row) => [
+    ...row.labels,
+    ...pivot.columnHeaders.flatMap((column) =>
+      measures.map((measure) => exportValue(measure, pivot.cells.get(cellKey(row.key, column.key))))
+    ),
+    ...(hasColumns ? measures.map((measure) => exportValue(measure, pivot.rowTotals.get(row.key))) : []),
+  ]);
+
+  // Without row dimensions the single row already is the total
+  if (config.rows.length > 0) {
+    rows.push([
+      "Total",
+      ...config.rows.slice(1).map(() => ""),
+      ...pivot.columnHeaders.flatMap((column) =>
+        measures.map((measure) => exportValue(measure, pivot.columnTotals.get(column.key)))
+      ),
+      ...(hasColumns ? measures.map((measure) => exportValue(measure, pivot.grandTotal)) : []),
+    ]);
+  }
+
+  return { headers, rows };
+}
@@ -0,0 +1,113 @@
+import { computeDelta, type RowComparison } from "@/lib/comparison";
+import type { CsvValue } from "@/lib/csv";
+import type { SortState } from "@/lib/dataGrid";
+import { exportHeaders, exportRow, type ResultColumn, type ResultRow } from "@/lib/resultColumns";
+import { productKey } from "@/lib/salesSummary";
+
+export interface ProductGroup {
+  key: string;
+  productTitle: string;
+  /** Variant rows, in the order of the view they were grouped from. */
+  rows: ResultRow[];
+  netItemsSold: number;
+  netSales: number;
+  comparison?: RowComparison;
+}
+
+/** Product-level values for the columns that have one; variant-only columns stay blank. */
+export const groupValue = (group: ProductGroup, columnId: string): number | string | null => {
+  switch (columnId) {
+    case "productTitle":
+      return group.productTitle;
+    case "netItemsSold":
+      return group.netItemsSold;
+    case "netSales":
+      return group.netSales;
+    case "previousNetItemsSold":
+      return group.comparison?.netItemsSold.previous ?? null;
+    case "netItemsSoldChange":
+      return group.comparison?.netItemsSold.absolute ?? null;
+    case "previousNetSales":
+      return group.comparison?.netSales.previous ?? null;
+    case "netSalesChange":
+      return group.comparison?.netSales.absolute ?? null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Groups variant rows under their product with subtotals. Groups appear in
+ * the order of their first row, so sorting by a variant-level column still
+ * carries over; sorting by a column with a product-level value orders the
+ * groups by their subtotal instead.
+ */
+export function groupByProduct(rows: ResultRow[], sort: SortState | null): ProductGroup[] {
+  const groups = new Map<string, ProductGroup>();
+  const previous = new Map<string, { netItemsSold: number; netSales: number }>();
+
+  rows.forEach((row) => {
+    const key = productKey(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, productTitle: row.productTitle, rows: [], netItemsSold: 0, netSales: 0 };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+    group.netItemsSold += row.netItemsSold;
+    group.netSales += row.netSales;
+
+    if (row.comparison) {
+      const totals = previous.get(key) ?? { netItemsSold: 0, netSales: 0 };
+      totals.netItemsSold += row.comparison.netItemsSold.previous;
+      totals.netSales += row.comparison.netSales.previous;
+      previous.set(key, totals);
+    }
+  });
+
+  const result = Array.from(groups.values());
+  result.forEach((group) => {
+    const totals = previous.get(group.key);
+    if (totals) {
+      group.comparison = {
+        netItemsSold: computeDelta(group.netItemsSold, totals.netItemsSold),
+        netSales: computeDelta(group.netSales, totals.netSales),
+      };
+    }
+  });
+
+  if (!sort || result.length === 0 || groupValue(result[0], sort.columnId) === null) return result;
+
+  const factor = sort.direction === "asc" ? 1 : -1;
+  return result.sort((a, b) => {
+    const left = groupValue(a, sort.columnId);
+    const right = groupValue(b, sort.columnId);
+    if (typeof left === "number" && typeof right === "number") return (left - right) * factor;
+    return String(left ?? "").localeCompare(String(right ?? ""), undefined, { numeric: true }) * factor;
+  });
+}
+
+/** A group as a single row, for rendering and exporting its subtotal line. */
+export const subtotalRow = (group: ProductGroup): ResultRow => ({
+  productId: group.rows[0]?.productId,
+  productTitle: group.productTitle,
+  variantTitle: `All variants (${group.rows.length})`,
+  sku: null,
+  netItemsSold: group.netItemsSold,
+  netSales: group.netSales,
+  comparison: group.comparison,
+});
+
+/**
+ * Export rows with a subtotal line before each product's variants. A leading "Level"
+ * column tells the two apart so the file still filters cleanly in a spreadsheet.
+ */
+export function groupedExport(columns: ResultColumn[], groups: ProductGroup[]) {
+  const headers = ["Level", ...exportHeaders(columns)];
+  const rows: CsvValue[][] = groups.flatMap((group) => [
+    ["Product", ...exportRow(columns, subtotalRow(group))],
+    ...group.rows.map((row) => ["Variant", ...exportRow(columns, row)]),
+  ]);
+
+  return { headers, rows };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { createApiClient, type Transport } from "@/lib/api";
+import { parseProductInput, resolveProductIdentifiers } from "./productIdentifiers";
+
+const lookupClient = (skus: Record<string, string | null>) => {
+  const transport = vi.fn<Transport>(async () => Response.json({ handles: {}, skus }));
+  return { transport, client: createApiClient({ baseUrl: "https://api.test", transport }) };
+};
+
+describe("resolveProductIdentifiers", () => {
+  it("passes bare numbers through as product IDs without a lookup", async () => {
+    const { client, transport } = lookupClient({});
+    const { identifiers } = parseProductInput("10042, 14968509825348");
+
+    const resolved = await resolveProductIdentifiers(client, identifiers);
+
+    expect(transport).not.toHaveBeenCalled();
+    expect(resolved.productIds).toEqual(["gid://shopify/Product/10042", "gid://shopify/Product/14968509825348"]);
+    expect(resolved.unmatched).toEqual([]);
+  });
+
+  it("looks numbers up as SKUs only when prefixed", async () => {
+    const { client, transport } = lookupClient({ "10042": "gid://shopify/Product/7" });
+    const { identifiers } = parseProductInput("sku:10042\n10042");
+
+    const resolved = await resolveProductIdentifiers(client, identifiers);
+
+    expect(JSON.parse(transport.mock.calls[0][1].body as string)).toEqual({ handles: [], skus: ["10042"] });
+    expect(resolved.productIds).toEqual(["gid://shopify/Product/7", "gid://shopify/Product/10042"]);
+  });
+
+  it("doesn't look up GIDs, URLs or prefixed SKUs as anything else", async () => {
+    const { client, transport } = lookupClient({ "10042": null });
+    const { identifiers } = parseProductInput("gid://shopify/Product/1\nadmin.shopify.com/store/demo/products/2\nsku:10042");
+
+    const resolved = await resolveProductIdentifiers(client, identifiers);
+
+    expect(JSON.parse(transport.mock.calls[0][1].body as string)).toEqual({ handles: [], skus: ["10042"] });
+    expect(resolved.productIds).toEqual(["gid://shopify/Product/1", "gid://shopify/Product/2"]);
+    expect(resolved.unmatched).toEqual([expect.objectContaining({ kind: "sku", sku: "10042" })]);
+  });
+});
@@ -0,0 +1,196 @@
+import { toProductGid, type ApiClient, type RequestOptions } from "@/lib/api";
+
+/**
+ * Normalizes whatever gets pasted into the Product IDs field — numeric IDs,
+ * GIDs, admin or storefront URLs, handles and SKUs, separated by commas,
+ * semicolons, tabs or newlines — into a de-duplicated list of identifiers.
+ * Numeric IDs are usable as-is; handles and SKUs still have to be looked up
+ * by the backend before querying. Bare numbers are always product IDs; a
+ * `sku:` or `handle:` prefix forces how a token is read, e.g. `sku:10042` for a
+ * numeric SKU.
+ */
+export type ProductIdentifier =
+  | { kind: "id"; id: string; token: string }
+  | { kind: "handle"; handle: string; token: string }
+  | { kind: "sku"; sku: string; token: string };
+
+export interface ParsedProductInput {
+  identifiers: ProductIdentifier[];
+  /** Tokens that don't look like any supported identifier, as typed. */
+  invalid: string[];
+  /** Number of tokens dropped because they repeat an earlier identifier. */
+  duplicates: number;
+}
+
+const NUMERIC_ID = /^\d+$/;
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/(\d+)$/i;
+const HANDLE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const SKU = /^[\w.\-/#+]+$/;
+
+/** `/admin/products/123`, `/store/<shop>/products/123` and `/products/<handle>`. */
+function fromUrl(token: string): ProductIdentifier | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(token) ? token : `https://${token}`);
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  const index = segments.lastIndexOf("products");
+  const value = index >= 0 ? segments[index + 1] : undefined;
+  if (!value) return null;
+
+  const isAdmin = segments[0] === "admin" || segments[0] === "store" || url.hostname === "admin.shopify.com";
+  if (NUMERIC_ID.test(value)) return { kind: "id", id: value, token };
+  if (!isAdmin && HANDLE.test(value.toLowerCase())) {
+    return { kind: "handle", handle: value.toLowerCase(), token };
+  }
+  return null;
+}
+
+export function parseProductIdentifier(token: string): ProductIdentifier | null {
+  const value = token.trim();
+  if (!value) return null;
+
+  const prefixed = /^(handle|sku):\s*(.+)$/i.exec(value);
+  if (prefixed) {
+    const [, kind, rest] = prefixed;
+    if (kind.toLowerCase() === "handle") {
+      return HANDLE.test(rest.toLowerCase()) ? { kind: "handle", handle: rest.toLowerCase(), token } : null;
+    }
+    return SKU.test(rest) ? { kind: "sku", sku: rest, token } : null;
+  }
+
+  if (NUMERIC_ID.test(value)) return { kind: "id", id: value, token };
+
+  const gid = PRODUCT_GID.exec(value);
+  if (gid) return { kind: "id", id: gid[1], token };
+  if (value.startsWith("gid://")) return null;
+
+  if (value.includes("/products/")) return fromUrl(value);
+
+  // Lowercase words joined by hyphens read as handles; anything else SKU-shaped is a SKU
+  if (HANDLE.test(value) && /[a-z]/.test(value)) return { kind: "handle", handle: value, token };
+  if (SKU.test(value) && !value.includes("://")) return { kind: "sku", sku: value, token };
+
+  return null;
+}
+
+/** Numeric part of a product GID, which is what the Product IDs field holds. */
+export const productIdOf = (gid: string) => gid.split("/").pop() ?? gid;
+
+export const identifierKey = (identifier: ProductIdentifier) =>
+  identifier.kind === "id"
+    ? `id:${identifier.id}`
+    : identifier.kind === "handle"
+      ? `handle:${identifier.handle}`
+      : `sku:${identifier.sku.toLowerCase()}`;
+
+export const describeIdentifier = (identifier: ProductIdentifier) =>
+  identifier.kind === "id"
+    ? identifier.id
+    : identifier.kind === "handle"
+      ? identifier.handle
+      : `SKU ${identifier.sku}`;
+
+export function parseProductInput(input: string): ParsedProductInput {
+  const seen = new Set<string>();
+  const result: ParsedProductInput = { identifiers: [], invalid: [], duplicates: 0 };
+
+  for (const token of input.split(/[\s,;]+/)) {
+    if (!token) continue;
+
+    const identifier = parseProductIdentifier(token);
+    if (!identifier) {
+      result.invalid.push(token);
+      continue;
+    }
+
+    const key = identifierKey(identifier);
+    if (seen.has(key)) {
+      result.duplicates += 1;
+      continue;
+    }
+    seen.add(key);
+    result.identifiers.push(identifier);
+  }
+
+  return result;
+}
+
+/** Keeps newline-separated input newline-separated when adding or removing products. */
+const separatorFor = (input: string) => (input.includes("\n") ? "\n" : ", ");
+
+/** Appends identifiers to the raw input, skipping ones it already contains. */
+export function addProductTokens(input: string, tokens: string[]): string {
+  const existing = new Set(parseProductInput(input).identifiers.map(identifierKey));
+  const added = tokens.filter((token) => {
+    const identifier = parseProductIdentifier(token);
+    if (!identifier) return false;
+
+    const key = identifierKey(identifier);
+    if (existing.has(key)) return false;
+    existing.add(key);
+    return true;
+  });
+  if (added.length === 0) return input;
+
+  const trimmed = input.trim();
+  const separator = separatorFor(trimmed);
+  return [trimmed, ...added].filter(Boolean).join(separator);
+}
+
+/** Removes every token in the raw input that refers to the given product ID. */
+export function removeProductId(input: string, id: string): string {
+  return input
+    .split(/[\s,;]+/)
+    .filter((token) => {
+      if (!token) return false;
+      const identifier = parseProductIdentifier(token);
+      return identifier?.kind !== "id" || identifier.id !== id;
+    })
+    .join(separatorFor(input.trim()));
+}
+
+export interface ResolvedProductIdentifiers {
+  /** De-duplicated product GIDs, in input order. */
+  productIds: string[];
+  /** Handles and SKUs the backend couldn't match to a product. */
+  unmatched: ProductIdentifier[];
+}
+
+/** Looks up handles and SKUs through the backend; product IDs pass straight through. */
+export async function resolveProductIdentifiers(
+  client: ApiClient,
+  identifiers: ProductIdentifier[],
+  { signal }: RequestOptions = {}
+): Promise<ResolvedProductIdentifiers> {
+  const handles = identifiers.flatMap((identifier) => (identifier.kind === "handle" ? [identifier.handle] : []));
+  const skus = identifiers.flatMap((identifier) => (identifier.kind === "sku" ? [identifier.sku] : []));
+
+  const lookup =
+    handles.length > 0 || skus.length > 0
+      ? await client.lookupProducts({ handles, skus }, { signal })
+      : { handles: {}, skus: {} };
+
+  const productIds = new Set<string>();
+  const unmatched: ProductIdentifier[] = [];
+
+  for (const identifier of identifiers) {
+    const gid =
+      identifier.kind === "id"
+        ? toProductGid(identifier.id)
+        : identifier.kind === "handle"
+          ? lookup.handles[identifier.handle]
+          : lookup.skus[identifier.sku];
+
+    if (gid) {
+      productIds.add(toProductGid(gid));
+    } else {
+      unmatched.push(identifier);
+    }
+  }
+
+  return { productIds: [...productIds], unmatched };
+}
@@ -0,0 +1,86 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import type { ApiClient, ProductScope } from "@/lib/api";
+
+export const EMPTY_SCOPE: ProductScope = {
+  collections: [],
+  vendors: [],
+  productTypes: [],
+  tags: [],
+};
+
+export const SCOPE_FIELDS: { key: keyof ProductScope; label: string; placeholder: string }[] = [
+  { key: "collections", label: "Collections", placeholder: "e.g. summer-sale, Best Sellers" },
+  { key: "vendors", label: "Vendors", placeholder: "e.g. Acme, Globex" },
+  { key: "productTypes", label: "Product Types", placeholder: "e.g. T-Shirts" },
+  { key: "tags", label: "Tags", placeholder: "e.g. clearance" },
+];
+
+/** Scope filters are typed as comma- or newline-separated lists. */
+export const parseScopeValues = (value: string) =>
+  Array.from(new Set(value.split(/[,\n]+/).map((item) => item.trim()).filter(Boolean)));
+
+export const formatScopeValues = (values: string[]) => values.join(", ");
+
+/** Scope filters as typed into the form, one string per filter. */
+export const scopeInputSchema = z.object({
+  collections: z.string(),
+  vendors: z.string(),
+  productTypes: z.string(),
+  tags: z.string(),
+});
+
+export type ScopeInput = z.infer<typeof scopeInputSchema>;
+
+export const EMPTY_SCOPE_INPUT: ScopeInput = {
+  collections: "",
+  vendors: "",
+  productTypes: "",
+  tags: "",
+};
+
+export const toProductScope = (input: ScopeInput): ProductScope => ({
+  collections: parseScopeValues(input.collections),
+  vendors: parseScopeValues(input.vendors),
+  productTypes: parseScopeValues(input.productTypes),
+  tags: parseScopeValues(input.tags),
+});
+
+export const toScopeInput = (scope: ProductScope | null): ScopeInput =>
+  scope
+    ? {
+        collections: formatScopeValues(scope.collections),
+        vendors: formatScopeValues(scope.vendors),
+        productTypes: formatScopeValues(scope.productTypes),
+        tags: formatScopeValues(scope.tags),
+      }
+    : EMPTY_SCOPE_INPUT;
+
+export const isScopeEmpty = (scope: ProductScope | null) =>
+  !scope || SCOPE_FIELDS.every(({ key }) => scope[key].length === 0);
+
+/** e.g. "Collections: summer-sale · Vendors: Acme, Globex" */
+export const describeScope = (scope: ProductScope) =>
+  SCOPE_FIELDS.filter(({ key }) => scope[key].length > 0)
+    .map(({ key, label }) => `${label}: ${scope[key].join(", ")}`)
+    .join(" · ");
+
+/** Matching is case-insensitive on the backend, so the key ignores case and order too. */
+export const productScopeQueryKey = (scope: ProductScope) =>
+  [
+    "product-scope",
+    ...SCOPE_FIELDS.map(({ key }) => scope[key].map((value) => value.toLowerCase()).sort()),
+  ] as const;
+
+const SCOPE_STALE_MS = 5 * 60 * 1000;
+
+export const productScopeQueryOptions = (client: ApiClient, scope: ProductScope) => ({
+  queryKey: productScopeQueryKey(scope),
+  queryFn: ({ signal }: { signal: AbortSignal }) => client.expandProductScope(scope, { signal }),
+  staleTime: SCOPE_STALE_MS,
+  gcTime: SCOPE_STALE_MS,
+});
+
+/** Expands a scope into product GIDs, reusing the count preview's result when it's fresh. */
+export const expandProductScope = (queryClient: QueryClient, client: ApiClient, scope: ProductScope) =>
+  queryClient.fetchQuery(productScopeQueryOptions(client, scope));
@@ -0,0 +1,17 @@
+/**
+ * Projects the seconds left for a run from the throughput observed so far.
+ * Returns `null` until at least one unit of work has finished.
+ */
+export function estimateRemainingSeconds(
+  startTime: Date,
+  processed: number,
+  total: number,
+  now: number = Date.now()
+): number | null {
+  if (processed <= 0 || total <= 0) return null;
+  if (processed >= total) return 0;
+
+  const elapsedSeconds = (now - startTime.getTime()) / 1000;
+  const secondsPerUnit = elapsedSeconds / processed;
+  return Math.max(0, Math.round(secondsPerUnit * (total - processed)));
+}
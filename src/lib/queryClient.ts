@@ -0,0 +1,39 @@
+import { QueryClient } from "@tanstack/react-query";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import type { PersistQueryClientOptions } from "@tanstack/react-query-persist-client";
+import { createStore, del, get, set } from "idb-keyval";
+
+/** Oldest cached result kept around at all, regardless of the TTL chosen in the form. */
+export const MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Persisted entries must outlive the in-memory garbage collector
+      gcTime: MAX_CACHE_AGE_MS,
+    },
+  },
+});
+
+const store = createStore("analytics-dashboard-cache", "react-query");
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: {
+    getItem: (key) => get<string>(key, store).then((value) => value ?? null),
+    setItem: (key, value) => set(key, value, store),
+    removeItem: (key) => del(key, store),
+  },
+  key: "analytics-dashboard-query-cache",
+});
+
+export const persistOptions: Omit<PersistQueryClientOptions, "queryClient"> = {
+  persister: queryPersister,
+  maxAge: MAX_CACHE_AGE_MS,
+  // Only sales results are worth keeping across reloads; lookups like product search are cheap to redo
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query) =>
+      query.queryKey[0] === "product-sales" && query.state.status === "success",
+  },
+  // Bump when the cached result shape changes so stale payloads are dropped
+  buster: "product-sales-v1",
+};
@@ -0,0 +1,101 @@
+import { clear, createStore, get, getMany, set, update } from "idb-keyval";
+import type { BatchOutcome, ProductSalesParams, ProductScope } from "@/lib/api";
+import type { ComparisonQuery } from "@/lib/comparison";
+import type { Breakdown } from "@/lib/timeSeries";
+
+/**
+ * The single in-flight query is persisted to IndexedDB as it runs so a reload
+ * can pick up where it left off. Job metadata lives under `job`; each finished
+ * batch is written separately under `batch:<jobId>:<index>` so progress never
+ * rewrites the rows accumulated so far, and a run that outlives its job can't
+ * write into the next one.
+ */
+const store = createStore("analytics-dashboard-jobs", "query-jobs");
+
+const JOB_KEY = "job";
+const batchKey = (jobId: string, index: number) => `batch:${jobId}:${index}`;
+
+export interface QueryJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  params: ProductSalesParams;
+  /** Raw textarea contents, restored into the form on resume. */
+  productInput: string;
+  /** Scope filters the product list was expanded from, alongside `productInput`. */
+  scope: ProductScope | null;
+  /** The date range expression the query was started with, e.g. "last 30 days". */
+  dateRange: string;
+  /** Display breakdown; may differ from `params.granularity` under a fiscal calendar. */
+  breakdown: Breakdown | null;
+  /** Fetched after the main range finishes; not resumed batch by batch. */
+  comparison: ComparisonQuery | null;
+  batchSize: number;
+  concurrency: number;
+  totalBatches: number;
+  completedBatches: number[];
+}
+
+export interface StoredQueryJob {
+  job: QueryJob;
+  outcomes: BatchOutcome[];
+}
+
+export function createQueryJob(
+  job: Omit<QueryJob, "id" | "createdAt" | "updatedAt" | "completedBatches">
+): QueryJob {
+  const now = new Date().toISOString();
+  return {
+    ...job,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    completedBatches: [],
+  };
+}
+
+/** Replaces any previously stored job, along with its batches. */
+export async function saveQueryJob(job: QueryJob) {
+  await clear(store);
+  await set(JOB_KEY, job, store);
+}
+
+/**
+ * Marks a batch as done. Batches that exhausted their retries aren't saved, so
+ * resuming the job fetches them again.
+ */
+export async function saveQueryJobBatch(jobId: string, index: number, outcome: BatchOutcome) {
+  if (outcome.failure) return;
+  await set(batchKey(jobId, index), outcome, store);
+  await update<QueryJob | undefined>(
+    JOB_KEY,
+    (job) =>
+      job && job.id === jobId
+        ? {
+            ...job,
+            updatedAt: new Date().toISOString(),
+            completedBatches: Array.from(new Set([...job.completedBatches, index])),
+          }
+        : job,
+    store
+  );
+}
+
+/**
+ * Returns the unfinished job left behind by an earlier session, if any. Only
+ * batches whose rows were saved count as completed; the rest are fetched again.
+ */
+export async function loadQueryJob(): Promise<StoredQueryJob | null> {
+  const job = await get<QueryJob>(JOB_KEY, store);
+  if (!job) return null;
+
+  const keys = job.completedBatches.map((index) => batchKey(job.id, index));
+  const saved = await getMany<BatchOutcome | undefined>(keys, store);
+  const completed = job.completedBatches.filter((_, position) => saved[position] && !saved[position].failure);
+  const outcomes = saved.filter((outcome): outcome is BatchOutcome => !!outcome && !outcome.failure);
+  return { job: { ...job, completedBatches: completed }, outcomes };
+}
+
+export async function clearQueryJob() {
+  await clear(store);
+}
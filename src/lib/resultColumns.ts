@@ -0,0 +1,125 @@
+import type { ProductSalesRow } from "@/lib/api";
+import type { RowComparison } from "@/lib/comparison";
+import type { CsvValue } from "@/lib/csv";
+import type { GridColumn } from "@/lib/dataGrid";
+import type { FieldFormat } from "@/lib/exportEngine";
+
+export type ResultRow = ProductSalesRow & { comparison?: RowComparison };
+
+export interface ResultColumn extends GridColumn<ResultRow> {
+  align?: "right";
+  /** Export fields; a single on-screen column can expand into several. */
+  csv: ExportField[];
+}
+
+/** Values are raw; each export target formats numbers according to `format`. */
+export interface ExportField {
+  header: string;
+  format: FieldFormat;
+  value: (row: ResultRow) => CsvValue;
+}
+
+const BASE_COLUMNS: ResultColumn[] = [
+  {
+    id: "productTitle",
+    label: "Product Title",
+    kind: "text",
+    value: (row) => row.productTitle,
+    csv: [{ header: "Product Title", format: "text", value: (row) => row.productTitle }],
+  },
+  {
+    id: "variantTitle",
+    label: "Product Variant Title",
+    kind: "text",
+    value: (row) => row.variantTitle,
+    csv: [{ header: "Product Variant Title", format: "text", value: (row) => row.variantTitle }],
+  },
+  {
+    id: "sku",
+    label: "Product Variant SKU",
+    kind: "text",
+    value: (row) => row.sku,
+    csv: [{ header: "Product Variant SKU", format: "text", value: (row) => row.sku }],
+  },
+  {
+    id: "netItemsSold",
+    label: "Net Items Sold",
+    kind: "number",
+    align: "right",
+    value: (row) => row.netItemsSold,
+    csv: [{ header: "Net Items Sold", format: "integer", value: (row) => row.netItemsSold }],
+  },
+  {
+    id: "netSales",
+    label: "Net Sales",
+    kind: "number",
+    align: "right",
+    value: (row) => row.netSales,
+    csv: [{ header: "Net Sales", format: "money", value: (row) => row.netSales }],
+  },
+];
+
+const COMPARISON_COLUMNS: ResultColumn[] = [
+  {
+    id: "previousNetItemsSold",
+    label: "Prev. Items Sold",
+    kind: "number",
+    align: "right",
+    value: (row) => row.comparison?.netItemsSold.previous ?? null,
+    csv: [
+      { header: "Previous Net Items Sold", format: "integer", value: (row) => row.comparison?.netItemsSold.previous },
+    ],
+  },
+  {
+    id: "netItemsSoldChange",
+    label: "Items Sold Change",
+    kind: "number",
+    align: "right",
+    value: (row) => row.comparison?.netItemsSold.absolute ?? null,
+    csv: [
+      { header: "Net Items Sold Change", format: "integer", value: (row) => row.comparison?.netItemsSold.absolute },
+      { header: "Net Items Sold Change %", format: "percent", value: (row) => row.comparison?.netItemsSold.percent },
+    ],
+  },
+  {
+    id: "previousNetSales",
+    label: "Prev. Net Sales",
+    kind: "number",
+    align: "right",
+    value: (row) => row.comparison?.netSales.previous ?? null,
+    csv: [{ header: "Previous Net Sales", format: "money", value: (row) => row.comparison?.netSales.previous }],
+  },
+  {
+    id: "netSalesChange",
+    label: "Net Sales Change",
+    kind: "number",
+    align: "right",
+    value: (row) => row.comparison?.netSales.absolute ?? null,
+    csv: [
+      { header: "Net Sales Change", format: "money", value: (row) => row.comparison?.netSales.absolute },
+      { header: "Net Sales Change %", format: "percent", value: (row) => row.comparison?.netSales.percent },
+    ],
+  },
+];
+
+/** Comparison columns sit next to the metric they compare, as in the original table. */
+export const resultColumns = (showComparison: boolean): ResultColumn[] =>
+  showComparison
+    ? [
+        ...BASE_COLUMNS.slice(0, 4),
+        COMPARISON_COLUMNS[0],
+        COMPARISON_COLUMNS[1],
+        BASE_COLUMNS[4],
+        COMPARISON_COLUMNS[2],
+        COMPARISON_COLUMNS[3],
+      ]
+    : BASE_COLUMNS;
+
+export const exportHeaders = (columns: ResultColumn[]) =>
+  columns.flatMap((column) => column.csv.map((field) => field.header));
+
+export const exportFormats = (columns: ResultColumn[]) =>
+  columns.flatMap((column) => column.csv.map((field) => field.format));
+
+export const exportRow = (columns: ResultColumn[], row: ResultRow) =>
+  columns.flatMap((column) => column.csv.map((field) => field.value(row)));
@@ -0,0 +1,39 @@
+import type { ProductSalesRow } from "@/lib/api";
+import { compareRows, type ComparedRow } from "@/lib/comparison";
+import { summarizeSales, type SalesSummary } from "@/lib/salesSummary";
+import { aggregateByVariant } from "@/lib/timeSeries";
+
+/** Everything derived from the raw rows that the results view needs. */
+export interface SalesAggregates {
+  /** Per-period rows collapsed to one row per variant. */
+  variantRows: ProductSalesRow[];
+  comparedRows: ComparedRow[] | null;
+  summary: SalesSummary;
+  previousSummary: SalesSummary | null;
+}
+
+export function computeSalesAggregates(
+  rows: ProductSalesRow[],
+  comparisonRows: ProductSalesRow[] | null
+): SalesAggregates {
+  const variantRows = aggregateByVariant(rows);
+  return {
+    variantRows,
+    comparedRows: comparisonRows ? compareRows(variantRows, comparisonRows) : null,
+    summary: summarizeSales(variantRows),
+    previousSummary: comparisonRows ? summarizeSales(comparisonRows) : null,
+  };
+}
+
+export const EMPTY_SALES_AGGREGATES = computeSalesAggregates([], null);
+
+export interface SalesAggregatesRequest {
+  id: number;
+  rows: ProductSalesRow[];
+  comparisonRows: ProductSalesRow[] | null;
+}
+
+export interface SalesAggregatesResponse {
+  id: number;
+  aggregates: SalesAggregates;
+}
@@ -0,0 +1,7 @@
+import { computeSalesAggregates, type SalesAggregatesRequest } from "./salesAggregates";
+
+// Aggregating tens of thousands of rows takes long enough to stall typing and scrolling on the main thread
+self.onmessage = (event: MessageEvent<SalesAggregatesRequest>) => {
+  const { id, rows, comparisonRows } = event.data;
+  self.postMessage({ id, aggregates: computeSalesAggregates(rows, comparisonRows) });
+};
@@ -0,0 +1,60 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { toProductGid, type BatchedProductSalesResult, type ProductSalesParams } from "@/lib/api";
+
+export const CACHE_TTL_OPTIONS = [
+  { value: 0, label: "Don't use cache" },
+  { value: 15, label: "15 minutes" },
+  { value: 60, label: "1 hour" },
+  { value: 360, label: "6 hours" },
+  { value: 1440, label: "24 hours" },
+] as const;
+
+export const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+/** Order and ID format of the product list don't change the result, so neither changes the key. */
+export const productSalesQueryKey = ({
+  productIds,
+  startDate,
+  endDate,
+  granularity,
+  timeZone,
+}: ProductSalesParams) =>
+  [
+    "product-sales",
+    Array.from(new Set(productIds.map(toProductGid))).sort(),
+    startDate,
+    endDate,
+    granularity ?? "total",
+    timeZone ?? "",
+  ] as const;
+
+export interface CachedSalesResult {
+  result: BatchedProductSalesResult;
+  cachedAt: number;
+}
+
+/** Returns a cached result no older than `ttlMinutes`, or `null`. */
+export function readCachedSales(
+  client: QueryClient,
+  params: ProductSalesParams,
+  ttlMinutes: number
+): CachedSalesResult | null {
+  if (ttlMinutes <= 0) return null;
+
+  const key = productSalesQueryKey(params);
+  const result = client.getQueryData<BatchedProductSalesResult>(key);
+  const cachedAt = client.getQueryState(key)?.dataUpdatedAt ?? 0;
+
+  if (!result || Date.now() - cachedAt > ttlMinutes * 60 * 1000) return null;
+  return { result, cachedAt };
+}
+
+/** Only complete runs are cached; a run with failed batches should be retried rather than reused. */
+export function writeCachedSales(
+  client: QueryClient,
+  params: ProductSalesParams,
+  result: BatchedProductSalesResult
+) {
+  if (result.failedProductIds.length > 0) return;
+  client.setQueryData(productSalesQueryKey(params), result);
+}
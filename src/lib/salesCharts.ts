@@ -0,0 +1,90 @@
+import type { ProductSalesRow } from "@/lib/api";
+import { variantKey } from "@/lib/comparison";
+import { productKey } from "@/lib/salesSummary";
+import type { SalesMetric } from "@/lib/timeSeries";
+
+/** Ranked shares of a metric for the results charts. */
+export type ChartLevel = "product" | "variant";
+
+export interface RankedItem {
+  key: string;
+  label: string;
+  value: number;
+}
+
+const variantLabel = (row: ProductSalesRow) =>
+  row.variantTitle && row.variantTitle !== "Default Title"
+    ? `${row.productTitle} – ${row.variantTitle}`
+    : row.productTitle;
+
+/** Totals per product or variant, largest first. */
+export function rankSales(rows: ProductSalesRow[], level: ChartLevel, metric: SalesMetric): RankedItem[] {
+  const totals = new Map<string, RankedItem>();
+  rows.forEach((row) => {
+    const key = level === "product" ? productKey(row) : variantKey(row);
+    const item = totals.get(key);
+    if (item) item.value += row[metric];
+    else totals.set(key, { key, label: level === "product" ? row.productTitle : variantLabel(row), value: row[metric] });
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.value - a.value);
+}
+
+export interface ParetoPoint extends RankedItem {
+  rank: number;
+  /** Running share of the positive total, 0–100. */
+  cumulativeShare: number;
+}
+
+/**
+ * Ranked items with their running share of the total. Returns are left out:
+ * negative totals would push the cumulative line past 100%.
+ */
+export function paretoPoints(ranked: RankedItem[]): ParetoPoint[] {
+  const positive = ranked.filter((item) => item.value > 0);
+  const total = positive.reduce((sum, item) => sum + item.value, 0);
+  let running = 0;
+
+  return positive.map((item, index) => {
+    running += item.value;
+    return { ...item, rank: index + 1, cumulativeShare: total > 0 ? (running / total) * 100 : 0 };
+  });
+}
+
+/** How many items it takes to reach `share` percent of the total, e.g. the "20" in 80/20. */
+export const paretoCutoff = (points: ParetoPoint[], share = 80) => {
+  const index = points.findIndex((point) => point.cumulativeShare >= share);
+  return index === -1 ? points.length : index + 1;
+};
+
+export interface TreemapNode {
+  name: string;
+  value: number;
+  children?: TreemapNode[];
+}
+
+/**
+ * Products containing their variants, sized by the metric. Beyond `limit`
+ * products the rest are merged into a single "Other" tile so labels stay legible.
+ */
+export function salesTreemap(rows: ProductSalesRow[], metric: SalesMetric, limit = 30): TreemapNode[] {
+  const products = new Map<string, TreemapNode & { children: TreemapNode[] }>();
+  rows.forEach((row) => {
+    if (row[metric] <= 0) return;
+    const key = productKey(row);
+    let product = products.get(key);
+    if (!product) {
+      product = { name: row.productTitle, value: 0, children: [] };
+      products.set(key, product);
+    }
+    product.value += row[metric];
+    product.children.push({ name: row.variantTitle || row.productTitle, value: row[metric] });
+  });
+
+  const ranked = Array.from(products.values()).sort((a, b) => b.value - a.value);
+  if (ranked.length <= limit) return ranked;
+
+  const rest = ranked.slice(limit);
+  const other = { name: `Other (${rest.length} products)`, value: rest.reduce((sum, product) => sum + product.value, 0) };
+  return [...ranked.slice(0, limit), { ...other, children: [other] }];
+}
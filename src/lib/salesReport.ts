@@ -0,0 +1,233 @@
+import { format } from "date-fns";
+import type { ChartImage } from "@/lib/chartExport";
+import { computeDelta, formatPercent } from "@/lib/comparison";
+import type { CsvValue } from "@/lib/csv";
+import type { SortState } from "@/lib/dataGrid";
+import { buildResultTable, type ExportSummaryItem, type FieldFormat } from "@/lib/exportEngine";
+import type { ResultColumn, ResultRow } from "@/lib/resultColumns";
+import { formatCurrency, SUMMARY_CARDS, type SalesSummary } from "@/lib/salesSummary";
+
+/**
+ * A shareable report of a result: query details, the summary cards, charts
+ * and the results table. The print layout and the PDF are built from the same
+ * report so both show the same figures.
+ */
+export interface SalesReport {
+  title: string;
+  generatedAt: Date;
+  details: ExportSummaryItem[];
+  summary: SalesSummary;
+  previous: SalesSummary | null;
+  table: ReportTable;
+}
+
+/** Reports are for reading, so very long results are cut off; exports carry every row. */
+export const REPORT_ROW_LIMIT = 1000;
+
+export interface ReportTableRow {
+  cells: string[];
+  /** Product subtotal line in a grouped table. */
+  subtotal: boolean;
+}
+
+export interface ReportTable {
+  headers: string[];
+  /** Numeric columns are right-aligned. */
+  numeric: boolean[];
+  rows: ReportTableRow[];
+  /** Row count before `REPORT_ROW_LIMIT` was applied. */
+  totalRows: number;
+}
+
+export function formatReportValue(value: CsvValue, fieldFormat: FieldFormat): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "number") return value;
+  switch (fieldFormat) {
+    case "money":
+      return formatCurrency(value);
+    case "percent":
+      return `${value.toFixed(1)}%`;
+    case "integer":
+      return value.toLocaleString();
+    default:
+      return String(value);
+  }
+}
+
+/** Display-formatted table; in grouped tables the "Level" column becomes the `subtotal` flag. */
+export function reportTable(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  grouping: { grouped: boolean; sort: SortState | null }
+): ReportTable {
+  const table = buildResultTable(rows, columns, grouping);
+  const skip = grouping.grouped ? 1 : 0;
+  const formats = table.formats.slice(skip);
+
+  return {
+    headers: table.headers.slice(skip),
+    numeric: formats.map((fieldFormat) => fieldFormat !== "text"),
+    rows: table.rows.slice(0, REPORT_ROW_LIMIT).map((row) => ({
+      cells: row.slice(skip).map((value, index) => formatReportValue(value, formats[index])),
+      subtotal: grouping.grouped && row[0] === "Product",
+    })),
+    totalRows: table.rows.length,
+  };
+}
+
+export interface ReportCard {
+  label: string;
+  value: string;
+  /** Change against the comparison period, when there is one. */
+  change: string | null;
+}
+
+export const reportCards = (summary: SalesSummary, previous: SalesSummary | null): ReportCard[] =>
+  SUMMARY_CARDS.map((card) => {
+    if (!previous) return { label: card.label, value: card.format(summary[card.key]), change: null };
+    const delta = computeDelta(summary[card.key], previous[card.key]);
+    return {
+      label: card.label,
+      value: card.format(summary[card.key]),
+      change: `${delta.absolute > 0 ? "+" : ""}${card.format(delta.absolute)} (${formatPercent(delta.percent)}) vs ${card.format(previous[card.key])}`,
+    };
+  });
+
+export interface ReportChart extends ChartImage {
+  title: string;
+}
+
+const MARGIN = 40;
+const PRIMARY: [number, number, number] = [59, 130, 246];
+const MUTED: [number, number, number] = [100, 116, 139];
+const BORDER: [number, number, number] = [226, 232, 240];
+
+/** Wide tables (e.g. with comparison columns) don't fit portrait A4 at a readable size. */
+const LANDSCAPE_COLUMNS = 7;
+
+/** Renders the report as an A4 PDF entirely in the browser. */
+export async function buildReportPdf(report: SalesReport, charts: ReportChart[]): Promise<Blob> {
+  // jsPDF is large and only needed here, so it's loaded on first use
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")]);
+  const doc = new jsPDF({
+    unit: "pt",
+    format: "a4",
+    orientation: report.table.headers.length > LANDSCAPE_COLUMNS ? "landscape" : "portrait",
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - MARGIN) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(report.title, MARGIN, y + 14);
+  y += 30;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  doc.text(`Generated ${format(report.generatedAt, "PPpp")}`, MARGIN, y);
+  y += 18;
+
+  doc.setTextColor(0);
+  report.details.forEach((item) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(`${item.label}:`, MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(doc.splitTextToSize(String(item.value), contentWidth - 100)[0] ?? "", MARGIN + 100, y);
+    y += 13;
+  });
+  y += 10;
+
+  const cards = reportCards(report.summary, report.previous);
+  const gap = 8;
+  const cardWidth = (contentWidth - gap * (cards.length - 1)) / cards.length;
+  const cardHeight = report.previous ? 66 : 48;
+  cards.forEach((card, index) => {
+    const x = MARGIN + index * (cardWidth + gap);
+    doc.setDrawColor(...BORDER);
+    doc.roundedRect(x, y, cardWidth, cardHeight, 4, 4, "S");
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(card.label, x + 8, y + 14);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.setTextColor(0);
+    doc.text(card.value, x + 8, y + 32);
+    if (card.change) {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.setTextColor(...MUTED);
+      doc.text(doc.splitTextToSize(card.change, cardWidth - 16), x + 8, y + 46);
+    }
+  });
+  doc.setTextColor(0);
+  y += cardHeight + 20;
+
+  charts.forEach((chart) => {
+    const width = Math.min(contentWidth, chart.width);
+    const height = (chart.height * width) / chart.width;
+    ensureSpace(height + 24);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(chart.title, MARGIN, y + 10);
+    doc.addImage(chart.dataUrl, "PNG", MARGIN, y + 18, width, height);
+    y += height + 36;
+  });
+
+  ensureSpace(80);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text("Results", MARGIN, y + 10);
+  y += 18;
+  if (report.table.totalRows > report.table.rows.length) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(
+      `Showing the first ${report.table.rows.length.toLocaleString()} of ${report.table.totalRows.toLocaleString()} rows. Use Export for the full data.`,
+      MARGIN,
+      y + 4
+    );
+    doc.setTextColor(0);
+    y += 12;
+  }
+
+  autoTable(doc, {
+    startY: y,
+    head: [report.table.headers],
+    body: report.table.rows.map((row) => row.cells),
+    margin: { top: MARGIN, right: MARGIN, bottom: MARGIN, left: MARGIN },
+    showHead: "everyPage",
+    styles: { fontSize: 7, cellPadding: 3 },
+    headStyles: { fillColor: PRIMARY },
+    columnStyles: Object.fromEntries(
+      report.table.numeric.map((numeric, index) => [index, { halign: numeric ? "right" : "left" }])
+    ),
+    didParseCell: (data) => {
+      if (data.section === "body" && report.table.rows[data.row.index]?.subtotal) {
+        data.cell.styles.fontStyle = "bold";
+      }
+    },
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(report.title, MARGIN, pageHeight - 20);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - MARGIN, pageHeight - 20, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
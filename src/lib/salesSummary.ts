@@ -0,0 +1,50 @@
+import type { ProductSalesRow } from "@/lib/api";
+
+/** Identifies a row's product by ID when the backend sent one, otherwise by title. */
+export const productKey = (row: ProductSalesRow) =>
+  row.productId ? `id:${row.productId}` : `title:${row.productTitle}`;
+
+export interface SalesSummary {
+  uniqueProducts: number;
+  totalVariants: number;
+  totalItemsSold: number;
+  totalSales: number;
+  avgSalePerItem: number;
+}
+
+export function summarizeSales(rows: ProductSalesRow[]): SalesSummary {
+  let totalItemsSold = 0;
+  let totalSales = 0;
+  const products = new Set<string>();
+
+  rows.forEach((row) => {
+    totalItemsSold += row.netItemsSold;
+    totalSales += row.netSales;
+    products.add(productKey(row));
+  });
+
+  return {
+    uniqueProducts: products.size,
+    totalVariants: rows.length,
+    totalItemsSold,
+    totalSales,
+    avgSalePerItem: totalItemsSold > 0 ? totalSales / totalItemsSold : 0,
+  };
+}
+
+export const formatCurrency = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatCount = (value: number) => value.toLocaleString();
+
+/** The headline figures shown above results and in reports, in display order. */
+export const SUMMARY_CARDS: { key: keyof SalesSummary; label: string; format: (value: number) => string }[] = [
+  { key: "uniqueProducts", label: "Unique Products", format: formatCount },
+  { key: "totalVariants", label: "Total Variants", format: formatCount },
+  { key: "totalItemsSold", label: "Total Items Sold", format: formatCount },
+  { key: "totalSales", label: "Total Sales", format: formatCurrency },
+  { key: "avgSalePerItem", label: "Avg Sale/Item", format: formatCurrency },
+];
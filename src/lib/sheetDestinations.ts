@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { GoogleSheetDestination, SheetWriteMode, UpdateGoogleSheetRequest } from "@/lib/api";
+import { DEFAULT_EXPORT_OPTIONS, buildResultTable, typedRows } from "@/lib/exportEngine";
+import { exportHeaders, type ResultColumn, type ResultRow } from "@/lib/resultColumns";
+
+const STORAGE_KEY = "analytics-dashboard:sheet-destinations";
+
+/** Export field that identifies a variant; upserts match rows on the column it maps to. */
+export const SKU_FIELD = "Product Variant SKU";
+
+export const WRITE_MODES: { value: SheetWriteMode; label: string; description: string }[] = [
+  { value: "replace", label: "Replace", description: "Clear the tab and write the results" },
+  { value: "append", label: "Append", description: "Add the results below existing rows" },
+  { value: "upsert", label: "Upsert by SKU", description: "Update rows with a matching SKU and add the rest" },
+];
+
+/** One export field and the sheet column it's written to. */
+const sheetColumnMappingSchema = z.object({
+  /** Export field header, e.g. "Net Sales". */
+  field: z.string(),
+  /** Column name in the sheet. */
+  header: z.string(),
+  include: z.boolean(),
+});
+
+export type SheetColumnMapping = z.infer<typeof sheetColumnMappingSchema>;
+
+const sheetDestinationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  spreadsheetId: z.string(),
+  sheetName: z.string(),
+  writeMode: z.enum(["replace", "append", "upsert"]),
+  columns: z.array(sheetColumnMappingSchema),
+});
+
+export type SheetDestination = z.infer<typeof sheetDestinationSchema>;
+
+/** Accepts a bare spreadsheet ID or any Google Sheets URL containing one. */
+export function parseSpreadsheetId(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  return match ? match[1] : trimmed;
+}
+
+/**
+ * Lines a saved mapping up with the fields available now: saved fields keep
+ * their order and names, fields the mapping doesn't know yet (e.g. comparison
+ * columns) follow, and fields that no longer exist are dropped.
+ */
+export function mergeColumnMapping(saved: SheetColumnMapping[], fields: string[], included: string[]): SheetColumnMapping[] {
+  const known = saved.filter((mapping) => fields.includes(mapping.field));
+  const added = fields
+    .filter((field) => !known.some((mapping) => mapping.field === field))
+    .map((field) => ({ field, header: field, include: saved.length === 0 && included.includes(field) }));
+  return [...known, ...added];
+}
+
+/** Sheet column the SKU is written to, if it's mapped. */
+export const skuColumn = (destination: SheetDestination) =>
+  destination.columns.find((mapping) => mapping.field === SKU_FIELD && mapping.include)?.header;
+
+export const destinationTarget = (destination: SheetDestination): GoogleSheetDestination => ({
+  spreadsheetId: parseSpreadsheetId(destination.spreadsheetId),
+  sheetName: destination.sheetName.trim(),
+  writeMode: destination.writeMode,
+  keyColumn: destination.writeMode === "upsert" ? skuColumn(destination) : undefined,
+});
+
+export const describeTarget = (target: GoogleSheetDestination) =>
+  `"${target.sheetName}" in ${target.spreadsheetId.slice(0, 8)}… (${
+    WRITE_MODES.find((mode) => mode.value === target.writeMode)?.label.toLowerCase() ?? target.writeMode
+  })`;
+
+/** The update request: mapped columns in sheet order with unformatted values. */
+export function sheetRequest(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  destination: SheetDestination
+): UpdateGoogleSheetRequest {
+  const table = buildResultTable(rows, columns, { grouped: false, sort: null });
+  const values = typedRows(table, DEFAULT_EXPORT_OPTIONS);
+  const fieldIndex = new Map(exportHeaders(columns).map((header, index) => [header, index]));
+  const mapped = destination.columns.filter((mapping) => mapping.include && fieldIndex.has(mapping.field));
+
+  return {
+    destination: destinationTarget(destination),
+    headers: mapped.map((mapping) => mapping.header.trim() || mapping.field),
+    rows: values.map((row) => mapped.map((mapping) => row[fieldIndex.get(mapping.field)!])),
+  };
+}
+
+const listeners = new Set<() => void>();
+let current: SheetDestination[] | null = null;
+
+function read(): SheetDestination[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? z.array(sheetDestinationSchema).safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(destinations: SheetDestination[]) {
+  current = destinations;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(destinations));
+  } catch (error) {
+    console.error("Could not save sheet destinations:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Saved destinations, most recently used first. Same array until they change. */
+export function getSheetDestinations(): SheetDestination[] {
+  if (!current) current = read();
+  return current;
+}
+
+/** Adds or replaces a destination by ID and moves it to the front. */
+export function saveSheetDestination(destination: SheetDestination) {
+  write([destination, ...getSheetDestinations().filter((existing) => existing.id !== destination.id)]);
+}
+
+export function deleteSheetDestination(id: string) {
+  write(getSheetDestinations().filter((destination) => destination.id !== id));
+}
+
+export function subscribeSheetDestinations(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { GoogleSheetContents, SheetWriteMode, UpdateGoogleSheetRequest } from "@/lib/api";
+import { diffSheet, hasChanges, sameCell, type SheetDiff } from "./sheetDiff";
+
+const current: GoogleSheetContents = {
+  headers: ["SKU", "Title", "Net Sales", "Notes"],
+  rows: [
+    ["A-1", "Tee", "10.50", "restock"],
+    ["B-2", "Cap", 20, ""],
+    ["C-3", "Mug", 5, "discontinued"],
+  ],
+};
+
+const request = (writeMode: SheetWriteMode, rows: UpdateGoogleSheetRequest["rows"]): UpdateGoogleSheetRequest => ({
+  destination: { spreadsheetId: "sheet", sheetName: "Sales", writeMode, keyColumn: "SKU" },
+  headers: ["SKU", "Title", "Net Sales"],
+  rows,
+});
+
+const update = [
+  ["A-1", "Tee", 10.5],
+  ["B-2", "Cap", 25],
+  ["D-4", "Bag", 7],
+];
+
+/** The same tab with its SKU column renamed. */
+const withoutKey: GoogleSheetContents = { ...current, headers: ["Code", "Title", "Net Sales", "Notes"] };
+
+const summary = (diff: SheetDiff) => diff.rows.map(({ status, key }) => [status, key]);
+
+describe("diffSheet", () => {
+  it("adds every row below the existing ones when appending", () => {
+    const diff = diffSheet(current, request("append", update), "SKU");
+
+    expect(summary(diff)).toEqual([
+      ["added", "Row 5"],
+      ["added", "Row 6"],
+      ["added", "Row 7"],
+    ]);
+    expect(diff.counts).toEqual({ added: 3, changed: 0, removed: 0, unchanged: 3 });
+    expect(diff.removedColumns).toEqual([]);
+  });
+
+  it("matches rows on the key column when replacing", () => {
+    const diff = diffSheet(current, request("replace", update), "SKU");
+
+    expect(diff.headers).toEqual(["SKU", "Title", "Net Sales"]);
+    expect(diff.removedColumns).toEqual(["Notes"]);
+    expect(summary(diff)).toEqual([
+      ["changed", "B-2"],
+      ["added", "D-4"],
+      ["removed", "C-3"],
+    ]);
+    expect(diff.rows[0].cells.map((cell) => cell.changed)).toEqual([false, false, true]);
+    expect(diff.rows[0].cells[2]).toMatchObject({ value: 25, previous: 20 });
+    expect(diff.counts).toEqual({ added: 1, changed: 1, removed: 1, unchanged: 1 });
+  });
+
+  it("compares row by row when replacing without a key column", () => {
+    const diff = diffSheet(current, request("replace", update), null);
+
+    expect(summary(diff)).toEqual([
+      ["changed", "Row 3"],
+      ["changed", "Row 4"],
+    ]);
+    expect(diff.counts).toEqual({ added: 0, changed: 2, removed: 0, unchanged: 1 });
+  });
+
+  it("falls back to row by row when the tab lacks the key column on replace", () => {
+    const diff = diffSheet(withoutKey, request("replace", update), "SKU");
+
+    // Every row gains the SKU column the tab doesn't have yet
+    expect(summary(diff).map(([, key]) => key)).toEqual(["Row 2", "Row 3", "Row 4"]);
+    expect(diff.removedColumns).toEqual(["Code", "Notes"]);
+  });
+
+  it("updates matching rows and keeps unmapped columns when upserting", () => {
+    const diff = diffSheet(current, request("upsert", update), "SKU");
+
+    expect(diff.headers).toEqual(["SKU", "Title", "Net Sales", "Notes"]);
+    expect(diff.removedColumns).toEqual([]);
+    expect(diff.missingKeyColumn).toBeNull();
+    expect(summary(diff)).toEqual([
+      ["changed", "B-2"],
+      ["added", "D-4"],
+    ]);
+    expect(diff.rows[0].cells[3]).toEqual({ value: "", previous: "", changed: false });
+    expect(diff.rows[1].cells[3]).toMatchObject({ value: null, changed: true });
+    expect(diff.counts).toEqual({ added: 1, changed: 1, removed: 0, unchanged: 2 });
+  });
+
+  it("flags an upsert into a tab without the key column", () => {
+    const diff = diffSheet(withoutKey, request("upsert", update), "SKU");
+
+    expect(diff.missingKeyColumn).toBe("SKU");
+  });
+
+  it("doesn't flag an upsert into an empty tab", () => {
+    const diff = diffSheet({ headers: [], rows: [] }, request("upsert", update), "SKU");
+
+    expect(diff.missingKeyColumn).toBeNull();
+    expect(diff.counts).toEqual({ added: 3, changed: 0, removed: 0, unchanged: 0 });
+  });
+
+  it("keeps repeated and blank keys apart", () => {
+    const sheet: GoogleSheetContents = {
+      headers: ["SKU", "Title", "Net Sales"],
+      rows: [
+        ["A-1", "Tee", 1],
+        ["A-1", "Tee", 2],
+        ["", "Gift card", 3],
+        [null, "Sticker", 4],
+      ],
+    };
+    const diff = diffSheet(
+      sheet,
+      request("replace", [
+        ["A-1", "Tee", 1],
+        ["A-1", "Tee", 5],
+        [null, "Gift card", 3],
+      ]),
+      "SKU"
+    );
+
+    expect(summary(diff)).toEqual([
+      ["changed", "A-1 (2)"],
+      ["removed", "(blank) (2)"],
+    ]);
+    expect(diff.counts).toEqual({ added: 0, changed: 1, removed: 1, unchanged: 2 });
+  });
+
+  it("reports no changes when the sheet already matches", () => {
+    const sheet: GoogleSheetContents = { headers: ["SKU", "Title", "Net Sales"], rows: [["A-1", "Tee", "10.50"]] };
+
+    expect(hasChanges(diffSheet(sheet, request("replace", [["A-1", "Tee", 10.5]]), "SKU"))).toBe(false);
+  });
+});
+
+describe("sameCell", () => {
+  it("treats numbers returned as text as the same value", () => {
+    expect(sameCell("10.50", 10.5)).toBe(true);
+    expect(sameCell("$1,234.50", 1234.5)).toBe(true);
+    expect(sameCell(10.5, 10.51)).toBe(false);
+  });
+
+  it("treats empty strings and null as blank, but not zero", () => {
+    expect(sameCell("", null)).toBe(true);
+    expect(sameCell(undefined, "")).toBe(true);
+    expect(sameCell(0, "")).toBe(false);
+  });
+
+  it("compares text ignoring surrounding whitespace", () => {
+    expect(sameCell(" Tee ", "Tee")).toBe(true);
+    expect(sameCell("Tee", "tee")).toBe(false);
+  });
+});
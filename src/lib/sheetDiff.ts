@@ -0,0 +1,146 @@
+import type { GoogleSheetContents, SheetWriteMode, UpdateGoogleSheetRequest } from "@/lib/api";
+
+/**
+ * Dry run of a Google Sheets push: what the tab holds now against what the
+ * write mode would leave in it. Rows are matched on the key column (the SKU)
+ * when there is one, otherwise by position.
+ */
+export type SheetCell = string | number | boolean | null;
+
+export type DiffStatus = "added" | "changed" | "removed";
+
+export interface DiffCell {
+  value: SheetCell;
+  /** Value in the sheet now, for changed and removed rows. */
+  previous?: SheetCell;
+  changed: boolean;
+}
+
+export interface DiffRow {
+  status: DiffStatus;
+  /** Key column value, or the 1-based sheet row for positional matching. */
+  key: string;
+  cells: DiffCell[];
+}
+
+export interface SheetDiff {
+  /** Columns of the tab after the write. */
+  headers: string[];
+  /** Columns a replace drops from the tab. */
+  removedColumns: string[];
+  /** Key column an upsert matches on that the tab doesn't have, so every row would be added again. */
+  missingKeyColumn: string | null;
+  rows: DiffRow[];
+  counts: Record<DiffStatus | "unchanged", number>;
+}
+
+const isBlank = (value: SheetCell | undefined) => value === null || value === undefined || value === "";
+
+/** Sheets hand numbers back as text depending on the cell format, so "10.5" and 10.5 are the same value. */
+export function sameCell(a: SheetCell | undefined, b: SheetCell | undefined): boolean {
+  if (isBlank(a) || isBlank(b)) return isBlank(a) && isBlank(b);
+  const numberA = typeof a === "number" ? a : Number(String(a).replace(/[$,\s]/g, ""));
+  const numberB = typeof b === "number" ? b : Number(String(b).replace(/[$,\s]/g, ""));
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return Math.abs(numberA - numberB) < 0.005;
+  return String(a).trim() === String(b).trim();
+}
+
+/** Keys rows by `column`; repeated or blank keys get a suffix so every row stays addressable. */
+function keyedRows(headers: string[], rows: SheetCell[][], column: string | null) {
+  const index = column ? headers.indexOf(column) : -1;
+  const seen = new Map<string, number>();
+  return rows.map((row, position) => {
+    if (index === -1) return { key: `Row ${position + 2}`, row };
+    const base = isBlank(row[index]) ? "(blank)" : String(row[index]).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { key: count > 1 ? `${base} (${count})` : base, row };
+  });
+}
+
+/**
+ * Compares the sheet with a pending update. `keyColumn` is the sheet column
+ * holding the SKU; without it a replace can only compare row by row.
+ */
+export function diffSheet(
+  current: GoogleSheetContents,
+  request: UpdateGoogleSheetRequest,
+  keyColumn: string | null
+): SheetDiff {
+  const mode: SheetWriteMode = request.destination.writeMode;
+  const counts = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+  const valueIn = (row: SheetCell[], header: string) => row[current.headers.indexOf(header)];
+
+  // Appending never touches existing rows
+  if (mode === "append") {
+    const rows = request.rows.map((row, index) => ({
+      status: "added" as const,
+      key: `Row ${current.rows.length + index + 2}`,
+      cells: row.map((value) => ({ value, changed: true })),
+    }));
+    counts.added = rows.length;
+    counts.unchanged = current.rows.length;
+    return { headers: request.headers, removedColumns: [], missingKeyColumn: null, rows, counts };
+  }
+
+  // Upserts keep columns the update doesn't write; replaces rewrite the tab with only the mapped ones
+  const headers =
+    mode === "upsert"
+      ? [...current.headers, ...request.headers.filter((header) => !current.headers.includes(header))]
+      : request.headers;
+  const removedColumns =
+    mode === "replace" ? current.headers.filter((header) => header && !request.headers.includes(header)) : [];
+
+  const matchColumn = mode === "upsert" || (keyColumn && current.headers.includes(keyColumn)) ? keyColumn : null;
+  // An empty tab has nothing to match against; a non-empty one without the key can't be upserted into
+  const missingKeyColumn =
+    mode === "upsert" && keyColumn && current.headers.length > 0 && !current.headers.includes(keyColumn)
+      ? keyColumn
+      : null;
+  const existing = new Map(keyedRows(current.headers, current.rows, matchColumn).map(({ key, row }) => [key, row]));
+  const rows: DiffRow[] = [];
+
+  keyedRows(request.headers, request.rows, matchColumn).forEach(({ key: rowKey, row }) => {
+    const before = existing.get(rowKey);
+    existing.delete(rowKey);
+    const cells = headers.map((header) => {
+      const index = request.headers.indexOf(header);
+      // Upserts leave columns they don't write as they are
+      const value = index === -1 ? (before ? valueIn(before, header) ?? null : null) : row[index];
+      const previous = before ? valueIn(before, header) ?? null : undefined;
+      return { value, previous, changed: !before || !sameCell(value, previous) };
+    });
+
+    if (!before) {
+      counts.added++;
+      rows.push({ status: "added", key: rowKey, cells });
+    } else if (cells.some((cell) => cell.changed)) {
+      counts.changed++;
+      rows.push({ status: "changed", key: rowKey, cells });
+    } else {
+      counts.unchanged++;
+    }
+  });
+
+  // Rows the update doesn't mention are gone after a replace and untouched by an upsert
+  existing.forEach((before, rowKey) => {
+    if (mode === "upsert") {
+      counts.unchanged++;
+      return;
+    }
+    counts.removed++;
+    rows.push({
+      status: "removed",
+      key: rowKey,
+      cells: headers.map((header) => {
+        const previous = valueIn(before, header) ?? null;
+        return { value: previous, previous, changed: true };
+      }),
+    });
+  });
+
+  return { headers, removedColumns, missingKeyColumn, rows, counts };
+}
+
+export const hasChanges = (diff: SheetDiff) =>
+  diff.counts.added + diff.counts.changed + diff.counts.removed > 0 || diff.removedColumns.length > 0;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { guessImportMode, previewColumn, type SpreadsheetData } from "./spreadsheetImport";
+
+const sheet = (...values: string[]): SpreadsheetData => ({
+  fileName: "products.csv",
+  headers: ["Value"],
+  rows: values.map((value) => [value]),
+});
+
+describe("previewColumn", () => {
+  const data = sheet("10042", "classic-tee", "gid://shopify/Product/7", "TEE-RED-XL", "10042", "two words");
+
+  it("reads each value by its shape in auto mode", () => {
+    expect(previewColumn(data, 0)).toEqual({
+      values: ["10042", "classic-tee", "gid://shopify/Product/7", "TEE-RED-XL"],
+      invalid: ["two words"],
+      duplicates: 1,
+    });
+  });
+
+  it("only accepts product IDs in ID mode", () => {
+    expect(previewColumn(data, 0, "id")).toEqual({
+      values: ["10042", "gid://shopify/Product/7"],
+      invalid: ["classic-tee", "TEE-RED-XL", "two words"],
+      duplicates: 1,
+    });
+  });
+
+  it("prefixes every value with sku: in SKU mode", () => {
+    expect(previewColumn(sheet("10042", "classic-tee", "sku:TEE-RED-XL", "two words"), 0, "sku")).toEqual({
+      values: ["sku:10042", "sku:classic-tee", "sku:TEE-RED-XL"],
+      invalid: ["two words"],
+      duplicates: 0,
+    });
+  });
+});
+
+describe("guessImportMode", () => {
+  it("reads SKU columns as SKUs", () => {
+    expect(guessImportMode("Variant SKU")).toBe("sku");
+    expect(guessImportMode("Product ID")).toBe("auto");
+  });
+});
@@ -0,0 +1,110 @@
+import { parseProductIdentifier } from "@/lib/productIdentifiers";
+
+export const SPREADSHEET_ACCEPT = ".csv,.tsv,.txt,.xlsx,.xls";
+
+export interface SpreadsheetData {
+  fileName: string;
+  /** Taken from the first row; blank headers become "Column N". */
+  headers: string[];
+  rows: string[][];
+}
+
+/** How the chosen column's values are read; "auto" goes by what each value looks like. */
+export type ImportMode = "auto" | "id" | "sku";
+
+export const IMPORT_MODES: { value: ImportMode; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: "id", label: "Product IDs" },
+  { value: "sku", label: "SKUs" },
+];
+
+export interface ColumnPreview {
+  /** Recognized identifiers, de-duplicated, in file order. */
+  values: string[];
+  invalid: string[];
+  duplicates: number;
+}
+
+/** Reads the first sheet of a CSV or Excel file entirely in the browser. */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  // SheetJS is large and only needed here, so it's loaded on first import
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error(`${file.name} doesn't contain any sheets`);
+
+  // Raw values: formatted text would show long numeric IDs as "1.49685E+13"
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, blankrows: false });
+  const [headerRow = [], ...rows] = table;
+  const width = Math.max(headerRow.length, ...rows.map((row) => row.length));
+
+  const cell = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+
+  return {
+    fileName: file.name,
+    headers: Array.from({ length: width }, (_, index) => cell(headerRow[index]) || `Column ${index + 1}`),
+    rows: rows.map((row) => Array.from({ length: width }, (_, index) => cell(row[index]))),
+  };
+}
+
+/**
+ * The cell as a Product IDs token, or `null` if it can't be read the way
+ * `mode` asks. SKUs get a `sku:` prefix so numeric or handle-like ones aren't
+ * taken for IDs or handles.
+ */
+function importToken(value: string, mode: ImportMode): string | null {
+  if (/\s/.test(value)) return null;
+  if (mode === "sku") {
+    const token = /^sku:/i.test(value) ? value : `sku:${value}`;
+    return parseProductIdentifier(token) ? token : null;
+  }
+
+  const identifier = parseProductIdentifier(value);
+  if (!identifier || (mode === "id" && identifier.kind !== "id")) return null;
+  return value;
+}
+
+export function previewColumn(data: SpreadsheetData, column: number, mode: ImportMode = "auto"): ColumnPreview {
+  const preview: ColumnPreview = { values: [], invalid: [], duplicates: 0 };
+  const seen = new Set<string>();
+
+  for (const row of data.rows) {
+    const value = row[column];
+    if (!value) continue;
+
+    const token = importToken(value, mode);
+    if (!token) {
+      preview.invalid.push(value);
+    } else if (seen.has(token)) {
+      preview.duplicates += 1;
+    } else {
+      seen.add(token);
+      preview.values.push(token);
+    }
+  }
+
+  return preview;
+}
+
+const ID_HEADER = /product.?id|^id$|sku|handle|url|gid/i;
+
+/** Picks the column most likely to hold product identifiers: a telling header first, then the most parseable values. */
+export function guessIdentifierColumn(data: SpreadsheetData): number {
+  let best = 0;
+  let bestScore = -1;
+
+  data.headers.forEach((header, index) => {
+    const { values, invalid } = previewColumn(data, index);
+    const total = values.length + invalid.length;
+    const score = (ID_HEADER.test(header) ? 1 : 0) + (total > 0 ? values.length / total : 0);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/** A column headed "SKU" (or "Variant SKU", ...) holds SKUs whatever they look like. */
+export const guessImportMode = (header: string): ImportMode => (/sku/i.test(header) ? "sku" : "auto");
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { fiscalCalendarSchema } from "@/lib/fiscalCalendar";
+import { browserTimeZone, isValidTimeZone } from "@/lib/timeZone";
+
+const STORAGE_KEY = "analytics-dashboard:store-settings";
+
+export const storeSettingsSchema = z.object({
+  /** IANA zone of the Shopify store; every range boundary is resolved in it. */
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  /** `null` uses the Gregorian calendar for presets and buckets. */
+  fiscalCalendar: fiscalCalendarSchema.nullable(),
+});
+
+export type StoreSettings = z.infer<typeof storeSettingsSchema>;
+
+const defaults = (): StoreSettings => ({ timeZone: browserTimeZone(), fiscalCalendar: null });
+
+const listeners = new Set<() => void>();
+let current: StoreSettings | null = null;
+
+function read(): StoreSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? storeSettingsSchema.safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? parsed.data : defaults();
+  } catch {
+    return defaults();
+  }
+}
+
+/** Returns the same object until the settings change, as `useSyncExternalStore` requires. */
+export function getStoreSettings(): StoreSettings {
+  if (!current) current = read();
+  return current;
+}
+
+export function saveStoreSettings(settings: StoreSettings) {
+  current = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save store settings:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeStoreSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { ProductSalesRow } from "@/lib/api";
+import { bucketStarts, buildTimeSeries } from "./timeSeries";
+
+const row = (productId: string, productTitle: string, period: string, netSales: number): ProductSalesRow => ({
+  productId,
+  productTitle,
+  variantTitle: "Default",
+  sku: null,
+  netItemsSold: 1,
+  netSales,
+  period,
+});
+
+describe("buildTimeSeries", () => {
+  const buckets = bucketStarts("2024-01-01", "2024-01-14", "week");
+
+  it("keeps products with the same title apart", () => {
+    const { points, series } = buildTimeSeries(
+      [
+        row("gid://shopify/Product/1", "Tee", "2024-01-02", 100),
+        row("gid://shopify/Product/2", "Tee", "2024-01-09", 40),
+        row("gid://shopify/Product/1", "Tee", "2024-01-10", 10),
+      ],
+      buckets,
+      "week",
+      "netSales"
+    );
+
+    expect(series).toEqual([
+      { key: "series0", label: "Tee" },
+      { key: "series1", label: "Tee (2)" },
+    ]);
+    expect(points.map(({ period, series0, series1 }) => [period, series0, series1])).toEqual([
+      ["2024-01-01", 100, 0],
+      ["2024-01-08", 10, 40],
+    ]);
+  });
+
+  it("groups everything past the top products as Other", () => {
+    const { points, series } = buildTimeSeries(
+      [row("1", "A", "2024-01-01", 30), row("2", "B", "2024-01-01", 20), row("3", "C", "2024-01-08", 10)],
+      buckets,
+      "week",
+      "netSales",
+      { topN: 1 }
+    );
+
+    expect(series.map(({ label }) => label)).toEqual(["A", "Other"]);
+    expect(points.map((point) => point.other)).toEqual([20, 10]);
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  addDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type { ProductSalesParams, ProductSalesRow } from "@/lib/api";
+import { variantKey } from "@/lib/comparison";
+import { formatIsoDate, parseIsoDate } from "@/lib/dateRanges";
+import { fiscalPeriodOf, fiscalPeriodsOf, fiscalYearOf, type FiscalCalendar } from "@/lib/fiscalCalendar";
+import { productKey } from "@/lib/salesSummary";
+
+export type Granularity = NonNullable<ProductSalesParams["granularity"]>;
+
+export const GRANULARITY_OPTIONS: { value: Granularity | "none"; label: string }[] = [
+  { value: "none", label: "Whole range" },
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+export type SalesMetric = "netSales" | "netItemsSold";
+
+/**
+ * How a result is broken down for display. With a fiscal calendar the backend
+ * is asked for daily rows, which are re-bucketed into fiscal weeks and periods.
+ */
+export interface Breakdown {
+  granularity: Granularity;
+  fiscalCalendar: FiscalCalendar | null;
+}
+
+export const requestGranularity = (breakdown: Breakdown | null): Granularity | undefined =>
+  breakdown ? (breakdown.fiscalCalendar ? "day" : breakdown.granularity) : undefined;
+
+/**
+ * Weeks start on Monday, matching Shopify Analytics, unless a fiscal calendar
+ * says otherwise. With a fiscal calendar, "monthly" buckets are fiscal periods.
+ */
+const weekOptions = (fiscalCalendar?: FiscalCalendar | null) => ({
+  weekStartsOn: fiscalCalendar?.weekStartsOn ?? 1,
+});
+
+/** Start date (`yyyy-MM-dd`) of every bucket overlapping the range, in order. */
+export function bucketStarts(
+  startDate: string,
+  endDate: string,
+  granularity: Granularity,
+  fiscalCalendar?: FiscalCalendar | null
+): string[] {
+  const interval = { start: parseIsoDate(startDate), end: parseIsoDate(endDate) };
+  if (interval.end < interval.start) return [];
+
+  if (granularity === "month" && fiscalCalendar) {
+    const starts: string[] = [];
+    let period = fiscalPeriodOf(interval.start, fiscalCalendar);
+    while (period.start <= interval.end) {
+      starts.push(formatIsoDate(period.start));
+      period = fiscalPeriodOf(addDays(period.end, 1), fiscalCalendar);
+    }
+    return starts;
+  }
+
+  const starts =
+    granularity === "day"
+      ? eachDayOfInterval(interval)
+      : granularity === "week"
+        ? eachWeekOfInterval(interval, weekOptions(fiscalCalendar))
+        : eachMonthOfInterval(interval);
+
+  return starts.map(formatIsoDate);
+}
+
+/** Maps any date inside a bucket to that bucket's start. */
+export function bucketOf(date: string, granularity: Granularity, fiscalCalendar?: FiscalCalendar | null): string {
+  const day = parseIsoDate(date);
+  if (granularity === "week") return formatIsoDate(startOfWeek(day, weekOptions(fiscalCalendar)));
+  if (granularity === "month") {
+    return formatIsoDate(fiscalCalendar ? fiscalPeriodOf(day, fiscalCalendar).start : startOfMonth(day));
+  }
+  return formatIsoDate(day);
+}
+
+export function bucketLabel(period: string, granularity: Granularity, fiscalCalendar?: FiscalCalendar | null): string {
+  const date = parseIsoDate(period);
+  if (granularity === "month" && fiscalCalendar) {
+    // Fiscal years are named after the calendar year they end in
+    const index = fiscalPeriodsOf(date, fiscalCalendar).findIndex(
+      (candidate) => formatIsoDate(candidate.start) === period
+    );
+    return `FY${fiscalYearOf(date, fiscalCalendar).end.getFullYear()} P${index + 1}`;
+  }
+  if (granularity === "month") return format(date, "MMM yyyy");
+  if (granularity === "week") return `Wk of ${format(date, "MMM d")}`;
+  return format(date, "MMM d");
+}
+
+/** Collapses per-period rows into one row per variant; rows without a period pass through. */
+export function aggregateByVariant(rows: ProductSalesRow[]): ProductSalesRow[] {
+  if (!rows.some((row) => row.period)) return rows;
+
+  const byKey = new Map<string, ProductSalesRow>();
+  rows.forEach((row) => {
+    const key = variantKey(row);
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.netItemsSold += row.netItemsSold;
+      existing.netSales += row.netSales;
+    } else {
+      const { period: _period, ...variant } = row;
+      byKey.set(key, { ...variant });
+    }
+  });
+
+  return Array.from(byKey.values());
+}
+
+export interface SeriesPoint {
+  period: string;
+  label: string;
+  [seriesKey: string]: number | string;
+}
+
+export interface TimeSeries {
+  points: SeriesPoint[];
+  /** Series keys in stacking order, with display labels. */
+  series: { key: string; label: string }[];
+}
+
+/**
+ * Builds one point per bucket with the `topN` best-selling products (by
+ * `metric` over the whole range) as separate series and everything else as
+ * "Other". Empty buckets are zero-filled so the chart's x axis is continuous.
+ */
+export function buildTimeSeries(
+  rows: ProductSalesRow[],
+  buckets: string[],
+  granularity: Granularity,
+  metric: SalesMetric,
+  { topN = 5, fiscalCalendar }: { topN?: number; fiscalCalendar?: FiscalCalendar | null } = {}
+): TimeSeries {
+  // Products are told apart by ID; titles are only labels and can repeat across a catalog
+  const totals = new Map<string, { title: string; total: number }>();
+  rows.forEach((row) => {
+    const product = productKey(row);
+    const entry = totals.get(product) ?? { title: row.productTitle, total: 0 };
+    entry.total += row[metric];
+    totals.set(product, entry);
+  });
+
+  const top = Array.from(totals.entries())
+    .sort((a, b) => b[1].total - a[1].total)
+    .slice(0, topN);
+  const hasOther = totals.size > top.length;
+
+  const titleCounts = new Map<string, number>();
+  const series = top.map(([, { title }], index) => {
+    const count = (titleCounts.get(title) ?? 0) + 1;
+    titleCounts.set(title, count);
+    return { key: `series${index}`, label: count > 1 ? `${title} (${count})` : title };
+  });
+  if (hasOther) series.push({ key: "other", label: "Other" });
+  const seriesKeyByProduct = new Map(top.map(([product], index) => [product, `series${index}`]));
+
+  const points = new Map<string, SeriesPoint>(
+    buckets.map((period) => [
+      period,
+      {
+        period,
+        label: bucketLabel(period, granularity, fiscalCalendar),
+        ...Object.fromEntries(series.map(({ key }) => [key, 0])),
+      },
+    ])
+  );
+
+  rows.forEach((row) => {
+    if (!row.period) return;
+    const point = points.get(bucketOf(row.period, granularity, fiscalCalendar));
+    if (!point) return;
+    const key = seriesKeyByProduct.get(productKey(row)) ?? "other";
+    point[key] = (point[key] as number) + row[metric];
+  });
+
+  return { points: Array.from(points.values()), series };
+}
+
+export interface WideRow {
+  productTitle: string;
+  variantTitle: string;
+  sku: string | null;
+  total: number;
+  /** Metric value per bucket, aligned with the `buckets` passed in. */
+  values: number[];
+}
+
+/** One row per variant with a column per bucket, for spreadsheet-style exports. */
+export function toWideRows(
+  rows: ProductSalesRow[],
+  buckets: string[],
+  granularity: Granularity,
+  metric: SalesMetric,
+  fiscalCalendar?: FiscalCalendar | null
+): WideRow[] {
+  const index = new Map(buckets.map((period, i) => [period, i]));
+  const byKey = new Map<string, WideRow>();
+
+  rows.forEach((row) => {
+    const key = variantKey(row);
+    let wide = byKey.get(key);
+    if (!wide) {
+      wide = {
+        productTitle: row.productTitle,
+        variantTitle: row.variantTitle,
+        sku: row.sku,
+        total: 0,
+        values: buckets.map(() => 0),
+      };
+      byKey.set(key, wide);
+    }
+
+    wide.total += row[metric];
+    const column = row.period ? index.get(bucketOf(row.period, granularity, fiscalCalendar)) : undefined;
+    if (column !== undefined) wide.values[column] += row[metric];
+  });
+
+  return Array.from(byKey.values());
+}
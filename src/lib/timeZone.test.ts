@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { formatIsoDate } from "@/lib/dateRanges";
+import { isValidTimeZone, todayInTimeZone } from "./timeZone";
+
+const todayIn = (timeZone: string, instant: string) => formatIsoDate(todayInTimeZone(timeZone, new Date(instant)));
+
+describe("todayInTimeZone", () => {
+  it("returns the store's calendar day, not the browser's", () => {
+    expect(todayIn("Asia/Tokyo", "2024-12-31T15:30:00Z")).toBe("2025-01-01");
+    expect(todayIn("America/Los_Angeles", "2025-01-01T07:30:00Z")).toBe("2024-12-31");
+  });
+
+  it("follows the store's offset across the spring DST change", () => {
+    // New York is UTC-5 before 2024-03-10 and UTC-4 after
+    expect(todayIn("America/New_York", "2024-03-10T04:59:00Z")).toBe("2024-03-09");
+    expect(todayIn("America/New_York", "2024-03-10T05:00:00Z")).toBe("2024-03-10");
+    expect(todayIn("America/New_York", "2024-03-11T03:59:00Z")).toBe("2024-03-10");
+    expect(todayIn("America/New_York", "2024-03-11T04:00:00Z")).toBe("2024-03-11");
+  });
+
+  it("follows the store's offset across the autumn DST change", () => {
+    // Berlin is UTC+2 until 2024-10-27 and UTC+1 after
+    expect(todayIn("Europe/Berlin", "2024-10-26T21:59:00Z")).toBe("2024-10-26");
+    expect(todayIn("Europe/Berlin", "2024-10-26T22:00:00Z")).toBe("2024-10-27");
+    expect(todayIn("Europe/Berlin", "2024-10-27T22:59:00Z")).toBe("2024-10-27");
+    expect(todayIn("Europe/Berlin", "2024-10-27T23:00:00Z")).toBe("2024-10-28");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Asia/Colombo")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
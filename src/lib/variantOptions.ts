@@ -0,0 +1,192 @@
+import type { ProductSalesRow } from "@/lib/api";
+import { productKey } from "@/lib/salesSummary";
+import type { SalesMetric } from "@/lib/timeSeries";
+
+/** Shopify's title for products that have no options. */
+const DEFAULT_VARIANT_TITLE = "Default Title";
+
+export interface VariantOption {
+  name: string;
+  value: string;
+}
+
+/** Option values in position order, e.g. "Red / XL" → ["Red", "XL"]. */
+export function variantOptionValues(variantTitle: string): string[] {
+  if (variantTitle.trim() === "" || variantTitle === DEFAULT_VARIANT_TITLE) return [];
+  return variantTitle.split(" / ").map((value) => value.trim());
+}
+
+const SIZE_ORDER = ["xxxs", "xxs", "xs", "s", "m", "l", "xl", "xxl", "xxxl", "xxxxl"];
+
+const SIZE_ALIASES: Record<string, string> = {
+  "extra small": "xs",
+  small: "s",
+  medium: "m",
+  large: "l",
+  "extra large": "xl",
+  "2xs": "xxs",
+  "3xs": "xxxs",
+  "2xl": "xxl",
+  "3xl": "xxxl",
+  "4xl": "xxxxl",
+};
+
+const COLORS = new Set(
+  [
+    "black", "white", "grey", "gray", "charcoal", "silver", "red", "burgundy", "maroon", "pink", "rose",
+    "orange", "coral", "yellow", "mustard", "gold", "green", "olive", "sage", "khaki", "teal", "turquoise",
+    "blue", "navy", "indigo", "purple", "lilac", "lavender", "brown", "tan", "beige", "cream", "ivory",
+    "natural", "camel", "multi", "multicolor", "clear",
+  ]
+);
+
+const MATERIALS = new Set(
+  [
+    "cotton", "organic cotton", "linen", "wool", "merino", "cashmere", "silk", "polyester", "nylon", "denim",
+    "leather", "suede", "canvas", "fleece", "bamboo", "hemp", "ceramic", "glass", "steel", "stainless steel",
+    "aluminum", "wood", "oak", "walnut", "brass", "copper", "plastic",
+  ]
+);
+
+const canonicalSize = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  return SIZE_ALIASES[normalized] ?? normalized;
+};
+
+/** Ranks sizes for size curves: letter sizes in wear order, then numeric sizes ascending. */
+export function sizeRank(value: string): number {
+  const size = canonicalSize(value);
+  const letter = SIZE_ORDER.indexOf(size);
+  if (letter !== -1) return letter;
+  const numeric = Number.parseFloat(size);
+  return Number.isNaN(numeric) ? Number.POSITIVE_INFINITY : SIZE_ORDER.length + numeric;
+}
+
+const isSize = (value: string) => {
+  const size = canonicalSize(value);
+  return SIZE_ORDER.includes(size) || /^\d+(\.\d+)?(\s?(us|uk|eu|cm|in|"))?$/i.test(size) || size === "one size";
+};
+
+/** Every word has to be a known color, so "Navy Blue" counts but "Blue Steel" doesn't. */
+const isColor = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[\s/-]+/)
+    .every((word) => COLORS.has(word) || word === "light" || word === "dark");
+
+const isMaterial = (value: string) => MATERIALS.has(value.trim().toLowerCase());
+
+const OPTION_NAME_ALIASES: Record<string, string> = {
+  colour: "Color",
+  color: "Color",
+  size: "Size",
+  material: "Material",
+  fabric: "Material",
+};
+
+export const normalizeOptionName = (name: string) => OPTION_NAME_ALIASES[name.trim().toLowerCase()] ?? name.trim();
+
+/**
+ * A variant's options. Structured options from the backend win; otherwise the
+ * title is split and each value classified as a size, color or material, with
+ * anything unrecognized left as "Option N".
+ */
+export function variantOptions(row: ProductSalesRow): VariantOption[] {
+  if (row.selectedOptions && row.selectedOptions.length > 0) {
+    return row.selectedOptions.map((option) => ({ name: normalizeOptionName(option.name), value: option.value }));
+  }
+
+  const taken = new Set<string>();
+  return variantOptionValues(row.variantTitle).map((value, index) => {
+    const guess = isSize(value) ? "Size" : isColor(value) ? "Color" : isMaterial(value) ? "Material" : null;
+    const name = guess && !taken.has(guess) ? guess : `Option ${index + 1}`;
+    taken.add(name);
+    return { name, value };
+  });
+}
+
+export const variantOptionValue = (row: ProductSalesRow, name: string) =>
+  variantOptions(row).find((option) => option.name === name)?.value;
+
+/** Option names found in the rows, most common first. */
+export function optionNames(rows: ProductSalesRow[]): string[] {
+  const counts = new Map<string, number>();
+  rows.forEach((row) =>
+    variantOptions(row).forEach((option) => counts.set(option.name, (counts.get(option.name) ?? 0) + 1))
+  );
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+}
+
+export interface OptionShare {
+  value: string;
+  total: number;
+  /** Share of the positive total across all values, 0–100. */
+  share: number;
+}
+
+/** Sizes keep their natural order so the result reads as a size curve; other options go largest first. */
+const compareShares = (optionName: string) => (a: OptionShare, b: OptionShare) =>
+  optionName === "Size"
+    ? sizeRank(a.value) - sizeRank(b.value) || a.value.localeCompare(b.value)
+    : b.total - a.total;
+
+function sharesOf(totals: Map<string, number>, optionName: string): OptionShare[] {
+  const sum = Array.from(totals.values()).reduce((total, value) => total + Math.max(0, value), 0);
+  return Array.from(totals.entries())
+    .map(([value, total]) => ({ value, total, share: sum > 0 ? (Math.max(0, total) / sum) * 100 : 0 }))
+    .sort(compareShares(optionName));
+}
+
+/** Merges spellings of the same letter size, e.g. "Large", "l" and "L". */
+const canonicalValue = (optionName: string, value: string) => {
+  if (optionName !== "Size") return value.trim();
+  const size = canonicalSize(value);
+  return SIZE_ORDER.includes(size) ? size.toUpperCase() : value.trim();
+};
+
+/** Totals for each value of an option across all products, e.g. sales by size. Variants without it are skipped. */
+export function optionBreakdown(rows: ProductSalesRow[], optionName: string, metric: SalesMetric): OptionShare[] {
+  const totals = new Map<string, number>();
+  rows.forEach((row) => {
+    const value = variantOptionValue(row, optionName);
+    if (value === undefined) return;
+    const key = canonicalValue(optionName, value);
+    totals.set(key, (totals.get(key) ?? 0) + row[metric]);
+  });
+  return sharesOf(totals, optionName);
+}
+
+export interface ProductOptionMix {
+  key: string;
+  productTitle: string;
+  total: number;
+  shares: OptionShare[];
+}
+
+/** Per-product mix of an option's values, e.g. the color mix of each product, largest products first. */
+export function optionMixByProduct(rows: ProductSalesRow[], optionName: string, metric: SalesMetric): ProductOptionMix[] {
+  const products = new Map<string, { productTitle: string; totals: Map<string, number> }>();
+  rows.forEach((row) => {
+    const value = variantOptionValue(row, optionName);
+    if (value === undefined) return;
+    const key = productKey(row);
+    let product = products.get(key);
+    if (!product) {
+      product = { productTitle: row.productTitle, totals: new Map() };
+      products.set(key, product);
+    }
+    const option = canonicalValue(optionName, value);
+    product.totals.set(option, (product.totals.get(option) ?? 0) + row[metric]);
+  });
+
+  return Array.from(products.entries())
+    .map(([key, { productTitle, totals }]) => ({
+      key,
+      productTitle,
+      total: Array.from(totals.values()).reduce((sum, value) => sum + value, 0),
+      shares: sharesOf(totals, optionName),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,7 @@
+import ExportHistory from "@/components/ExportHistory";
+
+const History = () => {
+  return <ExportHistory />;
+};
+
+export default History;